@@ -0,0 +1,333 @@
+import { Request, Response } from 'express';
+import AcademicCalendar from '../models/AcademicCalendar';
+import { AcademicCalendarService } from '../services/academicCalendarService';
+import { AcademicCalendarRequest, ApiResponse, CalendarDayInfo, CalendarDayRequest, IAcademicCalendar } from '../types';
+
+type CalendarDayList = 'holidays' | 'workingDays';
+
+const findOverlappingCalendar = (startDate: Date, endDate: Date, excludeId?: string) => {
+  const query: any = {
+    isActive: true,
+    startDate: { $lte: endDate },
+    endDate: { $gte: startDate }
+  };
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+  return AcademicCalendar.findOne(query);
+};
+
+/**
+ * List academic calendars, newest first
+ */
+export const getCalendars = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendars = await AcademicCalendar.find().sort({ startDate: -1 });
+
+    const response: ApiResponse<IAcademicCalendar[]> = {
+      success: true,
+      message: 'Academic calendars retrieved successfully',
+      data: calendars
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get academic calendars error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch academic calendars',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const createCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, startDate, endDate, weeklyOffs, courseWeeklyOffs, terms }: AcademicCalendarRequest = req.body;
+
+    const calendar = new AcademicCalendar({
+      name,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      weeklyOffs,
+      courseWeeklyOffs,
+      terms,
+      createdBy: req.user?.id
+    });
+
+    // Only one active calendar may cover a given day
+    const overlapping = await findOverlappingCalendar(calendar.startDate, calendar.endDate);
+    if (overlapping) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Dates overlap with the ${overlapping.name} calendar`,
+        code: 'CALENDAR_OVERLAP'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await calendar.save();
+
+    console.log(`📅 Academic calendar ${calendar.name} created by ${req.user?.email}`);
+
+    const response: ApiResponse<IAcademicCalendar> = {
+      success: true,
+      message: 'Academic calendar created successfully',
+      data: calendar
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Create academic calendar error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: error.name === 'ValidationError' ? error.message : 'Failed to create academic calendar',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(error.name === 'ValidationError' ? 400 : 500).json(response);
+  }
+};
+
+export const updateCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updateData: Partial<AcademicCalendarRequest> = req.body;
+
+    const calendar = await AcademicCalendar.findById(id);
+
+    if (!calendar) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Academic calendar not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (updateData.name) calendar.name = updateData.name;
+    if (updateData.startDate) calendar.startDate = new Date(updateData.startDate);
+    if (updateData.endDate) calendar.endDate = new Date(updateData.endDate);
+    if (updateData.weeklyOffs) calendar.weeklyOffs = updateData.weeklyOffs;
+    if (updateData.courseWeeklyOffs) calendar.set('courseWeeklyOffs', updateData.courseWeeklyOffs);
+    if (updateData.terms) calendar.set('terms', updateData.terms);
+    if (updateData.isActive !== undefined) calendar.isActive = updateData.isActive;
+
+    if (calendar.isActive) {
+      const overlapping = await findOverlappingCalendar(calendar.startDate, calendar.endDate, calendar._id.toString());
+      if (overlapping) {
+        const response: ApiResponse = {
+          success: false,
+          message: `Dates overlap with the ${overlapping.name} calendar`,
+          code: 'CALENDAR_OVERLAP'
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    await calendar.save();
+
+    const response: ApiResponse<IAcademicCalendar> = {
+      success: true,
+      message: 'Academic calendar updated successfully',
+      data: calendar
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Update academic calendar error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: error.name === 'ValidationError' ? error.message : 'Failed to update academic calendar',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(error.name === 'ValidationError' ? 400 : 500).json(response);
+  }
+};
+
+export const deleteCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const calendar = await AcademicCalendar.findByIdAndDelete(id);
+
+    if (!calendar) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Academic calendar not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Academic calendar deleted successfully'
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Delete academic calendar error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to delete academic calendar',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+// Holidays and special working days share the same shape and handling
+const addCalendarDay = async (req: Request, res: Response, list: CalendarDayList, label: string): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { date, endDate, name, courses }: CalendarDayRequest = req.body;
+
+    const calendar = await AcademicCalendar.findById(id);
+
+    if (!calendar) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Academic calendar not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const day = AcademicCalendarService.startOfDay(new Date(date));
+    const lastDay = endDate ? AcademicCalendarService.startOfDay(new Date(endDate)) : day;
+    if (day < calendar.startDate || lastDay > calendar.endDate) {
+      const response: ApiResponse = {
+        success: false,
+        message: `The ${label} must fall within the ${calendar.name} calendar`
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    calendar[list].push({
+      date: day,
+      endDate: list === 'holidays' && endDate ? lastDay : undefined,
+      name,
+      courses: courses || []
+    } as any);
+    await calendar.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: `${label.charAt(0).toUpperCase()}${label.slice(1)} added successfully`,
+      data: calendar[list][calendar[list].length - 1]
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error(`❌ Add ${label} error:`, error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: `Failed to add ${label}`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+const removeCalendarDay = async (req: Request, res: Response, list: CalendarDayList, label: string): Promise<void> => {
+  try {
+    const { id, dayId } = req.params;
+
+    const calendar = await AcademicCalendar.findById(id);
+    const index = calendar ? calendar[list].findIndex(day => day._id.toString() === dayId) : -1;
+
+    if (!calendar || index === -1) {
+      const response: ApiResponse = {
+        success: false,
+        message: `${label.charAt(0).toUpperCase()}${label.slice(1)} not found`
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    calendar[list].splice(index, 1);
+    await calendar.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: `${label.charAt(0).toUpperCase()}${label.slice(1)} removed successfully`
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error(`❌ Remove ${label} error:`, error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: `Failed to remove ${label}`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const addHoliday = (req: Request, res: Response): Promise<void> =>
+  addCalendarDay(req, res, 'holidays', 'holiday');
+
+export const removeHoliday = (req: Request, res: Response): Promise<void> =>
+  removeCalendarDay(req, res, 'holidays', 'holiday');
+
+export const addWorkingDay = (req: Request, res: Response): Promise<void> =>
+  addCalendarDay(req, res, 'workingDays', 'special working day');
+
+export const removeWorkingDay = (req: Request, res: Response): Promise<void> =>
+  removeCalendarDay(req, res, 'workingDays', 'special working day');
+
+/**
+ * Resolved day types for a date range, optionally for one course
+ */
+export const getCalendarDays = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { startDate, endDate, course } = req.query;
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const days = await AcademicCalendarService.describeRange(start, end, course as string | undefined);
+
+    const response: ApiResponse<CalendarDayInfo[]> = {
+      success: true,
+      message: 'Calendar days retrieved successfully',
+      data: days
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get calendar days error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch calendar days',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
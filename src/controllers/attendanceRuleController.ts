@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import AttendanceRule from '../models/AttendanceRule';
+import { ApiResponse, AttendanceRuleRequest, IAttendanceRule } from '../types';
+
+// Another active rule already covering the same course and location
+const findConflictingRule = (course?: string, location?: string, excludeId?: string) => {
+  const query: any = {
+    isActive: true,
+    course: course || null,
+    location: location || null
+  };
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+  return AttendanceRule.findOne(query);
+};
+
+/**
+ * List attendance rules, optionally filtered by course or location
+ */
+export const getRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { course, location, includeInactive } = req.query;
+
+    const query: any = {};
+    if (course) query.course = course;
+    if (location) query.location = location;
+    if (includeInactive !== 'true') query.isActive = true;
+
+    const rules = await AttendanceRule.find(query).sort({ course: 1, location: 1 });
+
+    const response: ApiResponse<IAttendanceRule[]> = {
+      success: true,
+      message: 'Attendance rules retrieved successfully',
+      data: rules
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get attendance rules error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch attendance rules',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const createRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      name,
+      course,
+      location,
+      startTime,
+      graceMinutes,
+      halfDayAfter,
+      minimumHours,
+      autoCheckoutTime
+    }: AttendanceRuleRequest = req.body;
+
+    const conflicting = await findConflictingRule(course || undefined, location || undefined);
+    if (conflicting) {
+      const response: ApiResponse = {
+        success: false,
+        message: `The ${conflicting.name} rule already covers this course and location`,
+        code: 'RULE_EXISTS'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const rule = new AttendanceRule({
+      name,
+      course: course || undefined,
+      location: location || undefined,
+      startTime,
+      graceMinutes,
+      halfDayAfter: halfDayAfter || undefined,
+      minimumHours: minimumHours ?? undefined,
+      autoCheckoutTime: autoCheckoutTime || undefined,
+      createdBy: req.user?.id
+    });
+
+    await rule.save();
+
+    console.log(`⏰ Attendance rule ${rule.name} created by ${req.user?.email}`);
+
+    const response: ApiResponse<IAttendanceRule> = {
+      success: true,
+      message: 'Attendance rule created successfully',
+      data: rule
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Create attendance rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: error.name === 'ValidationError' ? error.message : 'Failed to create attendance rule',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(error.name === 'ValidationError' ? 400 : 500).json(response);
+  }
+};
+
+/**
+ * Update a rule; null clears course, location, half-day cutoff, minimum hours or auto checkout time
+ */
+export const updateRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updateData: Partial<AttendanceRuleRequest> = req.body;
+
+    const rule = await AttendanceRule.findById(id);
+
+    if (!rule) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Attendance rule not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (updateData.name) rule.name = updateData.name;
+    if (updateData.course !== undefined) rule.course = updateData.course || undefined;
+    if (updateData.location !== undefined) rule.location = updateData.location || undefined;
+    if (updateData.startTime) rule.startTime = updateData.startTime;
+    if (updateData.graceMinutes !== undefined) rule.graceMinutes = updateData.graceMinutes;
+    if (updateData.halfDayAfter !== undefined) rule.halfDayAfter = updateData.halfDayAfter || undefined;
+    if (updateData.minimumHours !== undefined) rule.minimumHours = updateData.minimumHours ?? undefined;
+    if (updateData.autoCheckoutTime !== undefined) rule.autoCheckoutTime = updateData.autoCheckoutTime || undefined;
+    if (updateData.isActive !== undefined) rule.isActive = updateData.isActive;
+
+    if (rule.isActive) {
+      const conflicting = await findConflictingRule(rule.course, rule.location, rule._id.toString());
+      if (conflicting) {
+        const response: ApiResponse = {
+          success: false,
+          message: `The ${conflicting.name} rule already covers this course and location`,
+          code: 'RULE_EXISTS'
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    await rule.save();
+
+    const response: ApiResponse<IAttendanceRule> = {
+      success: true,
+      message: 'Attendance rule updated successfully',
+      data: rule
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Update attendance rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: error.name === 'ValidationError' ? error.message : 'Failed to update attendance rule',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(error.name === 'ValidationError' ? 400 : 500).json(response);
+  }
+};
+
+/**
+ * Delete a rule; records already classified keep their status
+ */
+export const deleteRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const rule = await AttendanceRule.findByIdAndDelete(id);
+
+    if (!rule) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Attendance rule not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Attendance rule deleted successfully'
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Delete attendance rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to delete attendance rule',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
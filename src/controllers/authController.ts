@@ -0,0 +1,301 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { AuthService } from '../services/authService';
+import {
+  ApiResponse,
+  AuthTokensResponse,
+  AuthenticatedUser,
+  CreateUserRequest,
+  LoginRequest,
+  UpdateUserRequest
+} from '../types';
+
+/**
+ * Log in with email and password
+ */
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password }: LoginRequest = req.body;
+
+    const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+
+    if (!user || !user.isActive || !(await user.comparePassword(password))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid email or password'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    console.log(`🔐 User logged in: ${user.email} (${user.role})`);
+
+    const response: ApiResponse<AuthTokensResponse> = {
+      success: true,
+      message: 'Login successful',
+      data: AuthService.issueTokens(user)
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Login error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Login failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Exchange a refresh token for a new token pair
+ */
+export const refreshToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken: token }: { refreshToken: string } = req.body;
+
+    let payload;
+    try {
+      payload = AuthService.verifyRefreshToken(token);
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid or expired refresh token'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const user = await User.findById(payload.sub);
+
+    if (!user || !user.isActive || user.tokenVersion !== payload.tokenVersion) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid or expired refresh token'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const response: ApiResponse<AuthTokensResponse> = {
+      success: true,
+      message: 'Token refreshed successfully',
+      data: AuthService.issueTokens(user)
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Token refresh error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to refresh token',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Log out by revoking every refresh token issued to the current user
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await User.findByIdAndUpdate(req.user!.id, { $inc: { tokenVersion: 1 } });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Logged out successfully'
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Logout error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Logout failed',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get the currently authenticated user
+ */
+export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  const response: ApiResponse<AuthenticatedUser> = {
+    success: true,
+    message: 'Current user retrieved successfully',
+    data: req.user
+  };
+
+  res.json(response);
+};
+
+/**
+ * Create a staff user (admin only)
+ */
+export const createUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, email, password, role }: CreateUserRequest = req.body;
+
+    const existingUser = await User.findOne({ email: email.toLowerCase() });
+
+    if (existingUser) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'A user with this email already exists'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const user = new User({
+      name,
+      email: email.toLowerCase(),
+      password,
+      role
+    });
+
+    await user.save();
+
+    console.log(`👤 User created: ${user.email} (${user.role}) by ${req.user?.email}`);
+
+    const response: ApiResponse<AuthenticatedUser> = {
+      success: true,
+      message: 'User created successfully',
+      data: AuthService.toAuthenticatedUser(user)
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Create user error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to create user',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * List staff users (admin only)
+ */
+export const getUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role } = req.query;
+
+    const query: any = {};
+    if (role) {
+      query.role = role;
+    }
+
+    const users = await User.find(query).sort({ createdAt: -1 });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Users retrieved successfully',
+      data: users.map(user => ({
+        ...AuthService.toAuthenticatedUser(user),
+        isActive: user.isActive,
+        lastLoginAt: user.lastLoginAt,
+        createdAt: user.createdAt
+      }))
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get users error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch users',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Update a staff user's name, role, status or password (admin only)
+ */
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updateData: UpdateUserRequest = req.body;
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Prevent admins from locking themselves out
+    if (user._id.toString() === req.user!.id && (updateData.isActive === false || (updateData.role && updateData.role !== 'admin'))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'You cannot deactivate or demote your own account'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (updateData.name) user.name = updateData.name;
+    if (updateData.password) user.password = updateData.password;
+
+    // Role or status changes revoke existing tokens so they take effect immediately
+    if ((updateData.role && updateData.role !== user.role) || (updateData.isActive !== undefined && updateData.isActive !== user.isActive)) {
+      if (updateData.role) user.role = updateData.role;
+      if (updateData.isActive !== undefined) user.isActive = updateData.isActive;
+      user.tokenVersion += 1;
+    }
+
+    await user.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'User updated successfully',
+      data: {
+        ...AuthService.toAuthenticatedUser(user),
+        isActive: user.isActive
+      }
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Update user error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update user',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import Device from '../models/Device';
+import { DeviceService } from '../services/deviceService';
+import { ApiResponse, DeviceCredentialsResponse, RegisterDeviceRequest, UpdateDeviceRequest } from '../types';
+
+/**
+ * Register a new kiosk device and issue its secret key
+ */
+export const registerDevice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, location }: RegisterDeviceRequest = req.body;
+
+    const existingDevice = await Device.findOne({ name });
+
+    if (existingDevice) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'A device with this name already exists'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const secretKey = DeviceService.generateSecretKey();
+
+    const device = new Device({
+      name,
+      location,
+      secretKey,
+      registeredBy: req.user?.id
+    });
+
+    await device.save();
+
+    console.log(`📟 Device registered: ${device.name} at ${device.location} by ${req.user?.email}`);
+
+    const response: ApiResponse<DeviceCredentialsResponse> = {
+      success: true,
+      message: 'Device registered successfully. Store the secret key now, it will not be shown again.',
+      data: {
+        deviceId: device._id.toString(),
+        name: device.name,
+        location: device.location,
+        secretKey
+      }
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Register device error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to register device',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * List registered devices
+ */
+export const getDevices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const devices = await Device.find().sort({ createdAt: -1 });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Devices retrieved successfully',
+      data: devices
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get devices error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch devices',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Update a device's name, location or enabled flag
+ * Disabling a device revokes it immediately (e.g. a stolen tablet)
+ */
+export const updateDevice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updateData: UpdateDeviceRequest = req.body;
+
+    const device = await Device.findById(id);
+
+    if (!device) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Device not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (updateData.name && updateData.name !== device.name) {
+      const existingDevice = await Device.findOne({ name: updateData.name });
+      if (existingDevice) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'A device with this name already exists'
+        };
+        res.status(400).json(response);
+        return;
+      }
+      device.name = updateData.name;
+    }
+
+    if (updateData.location) device.location = updateData.location;
+    if (updateData.isEnabled !== undefined) device.isEnabled = updateData.isEnabled;
+
+    await device.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Device updated successfully',
+      data: device
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Update device error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update device',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Rotate a device's secret key
+ * The previous key stops working immediately
+ */
+export const rotateDeviceKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const device = await Device.findById(id);
+
+    if (!device) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Device not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const secretKey = DeviceService.generateSecretKey();
+    device.secretKey = secretKey;
+    device.keyRotatedAt = new Date();
+
+    await device.save();
+
+    console.log(`🔑 Device key rotated: ${device.name} by ${req.user?.email}`);
+
+    const response: ApiResponse<DeviceCredentialsResponse> = {
+      success: true,
+      message: 'Device key rotated successfully. Store the secret key now, it will not be shown again.',
+      data: {
+        deviceId: device._id.toString(),
+        name: device.name,
+        location: device.location,
+        secretKey
+      }
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Rotate device key error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to rotate device key',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
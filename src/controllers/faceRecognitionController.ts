@@ -1,21 +1,44 @@
 import { Request, Response } from 'express';
 import Student from '../models/Student';
-import Attendance from '../models/Attendance';
+import Attendance, { ATTENDED_STATUSES } from '../models/Attendance';
 import { 
   extractFaceDescriptor, 
-  findBestMatch, 
+  extractFaceTemplate,
   preprocessImage,
-  isModelsLoaded
+  isModelsLoaded,
+  resolveDetectorOptions
 } from '../middleware/faceRecognition';
 import { eventService } from '../services/eventService';
+import { LivenessService } from '../services/livenessService';
+import { faceIndex } from '../services/faceIndexService';
+import { DuplicateFaceService } from '../services/duplicateFaceService';
 import { s3Service } from '../services/s3Service';
-import { ApiResponse, EnrollStudentRequest, MarkAttendanceRequest, LoginStatusResponse, AbsentStudent } from '../types';
+import { FingerprintService } from '../services/fingerprintService';
+import { TimetableService } from '../services/timetableService';
+import { AttendanceRuleService } from '../services/attendanceRuleService';
+import { AcademicCalendarService, CalendarDayResolver } from '../services/academicCalendarService';
+import { LeaveService } from '../services/leaveService';
+import { rollCall } from '../services/rollCallService';
+import { FaceWorkerQueueFullError } from '../services/faceWorkerPool';
+import { sendFaceWorkersBusy } from '../middleware/faceWorkerBackpressure';
+import { rejectDuplicateFace, rejectLowQualityFace } from '../middleware/faceEnrollment';
+import { ApiResponse, EnrollStudentRequest, MarkAttendanceRequest, LoginStatusResponse, AbsentStudent, DuplicateFaceCheckResult, FaceTemplateExtraction, IVerifiedRegistration, WeeklyTrendData, AttendanceStatusCounts, ExcusedStudent, ILeave, IStudent } from '../types';
 import { generateStudentId } from '../utils/idGenerator';
 import { generateWhatsAppLink, generateAbsenceMessage } from '../utils/whatsapp';
 
 export const enrollStudent = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, email, phone, course, faceImage, fingerprintData }: EnrollStudentRequest = req.body;
+    const {
+      name,
+      email,
+      phone,
+      course,
+      faceImage,
+      fingerprintRegistrationId,
+      fingerprintLabel,
+      allowDuplicateFace,
+      detector
+    }: EnrollStudentRequest = req.body;
     
     // Validate required fields
     if (!name || !email || !phone || !course) {
@@ -28,7 +51,7 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
     }
     
     // Validate at least one biometric method is provided
-    if (!faceImage && !fingerprintData) {
+    if (!faceImage && !fingerprintRegistrationId) {
       const response: ApiResponse = {
         success: false,
         message: 'At least one biometric method (face or fingerprint) must be provided'
@@ -65,7 +88,7 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
     }
     
     // Process face image if provided
-    let faceDescriptor: Float32Array | undefined;
+    let faceTemplate: FaceTemplateExtraction | undefined;
     if (faceImage) {
       console.log(`📷 Processing face image for ${name} (${studentId})`);
       console.log(`📷 Image data length: ${faceImage.length} characters`);
@@ -74,12 +97,18 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
         const imageBuffer = Buffer.from(faceImage.split(',')[1], 'base64');
         console.log(`📷 Buffer size: ${imageBuffer.length} bytes`);
         
+        const detectorOptions = resolveDetectorOptions(detector, 'enrollment');
         const processedImage = await preprocessImage(imageBuffer);
-        console.log(`📷 Processed image size: ${processedImage.length} bytes`);
+        console.log(`📷 Processed image size: ${processedImage.image.length} bytes`);
         
-        faceDescriptor = await extractFaceDescriptor(processedImage);
-        console.log(`📷 Face descriptor extracted: ${faceDescriptor.length} dimensions`);
+        faceTemplate = await extractFaceTemplate(processedImage, detectorOptions);
+        console.log(`📷 Face descriptor extracted: ${faceTemplate.descriptor.length} dimensions, quality ${faceTemplate.quality}`);
       } catch (faceError: any) {
+        if (faceError instanceof FaceWorkerQueueFullError) {
+          sendFaceWorkersBusy(res, faceError.retryAfterSeconds);
+          return;
+        }
+
         console.error('❌ Face processing error:', faceError);
         const response: ApiResponse = {
           success: false,
@@ -91,10 +120,46 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
       }
     }
     
+    if (faceTemplate && rejectLowQualityFace(res, faceTemplate.qualityReport)) {
+      return;
+    }
+
+    // Refuse (or flag) the enrollment if this face already belongs to another student
+    let duplicateCheck: DuplicateFaceCheckResult = { action: 'allow' };
+    if (faceTemplate) {
+      duplicateCheck = await DuplicateFaceService.check(
+        faceTemplate.descriptor,
+        undefined,
+        allowDuplicateFace === true && req.user?.role === 'admin'
+      );
+      
+      if (rejectDuplicateFace(res, duplicateCheck)) {
+        return;
+      }
+    }
+    
+    // Claim the fingerprint credential verified by /api/fingerprint/register/verify
+    let fingerprint: { registration: IVerifiedRegistration; userHandle: string } | undefined;
+    if (fingerprintRegistrationId) {
+      const claimed = await FingerprintService.consumeRegistration(fingerprintRegistrationId);
+      
+      if (!claimed.verified) {
+        const response: ApiResponse = {
+          success: false,
+          message: claimed.error || 'Fingerprint registration is not valid',
+          code: claimed.code
+        };
+        res.status(400).json(response);
+        return;
+      }
+      
+      fingerprint = claimed.data;
+    }
+    
     // Determine biometric methods
     const biometricMethods: ('face' | 'fingerprint')[] = [];
-    if (faceImage && faceDescriptor) biometricMethods.push('face');
-    if (fingerprintData) biometricMethods.push('fingerprint');
+    if (faceImage && faceTemplate) biometricMethods.push('face');
+    if (fingerprint) biometricMethods.push('fingerprint');
     
     // Create new student first to get MongoDB ID
     const student = new Student({
@@ -103,15 +168,28 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
       email: email.toLowerCase(),
       phone,
       course,
-      faceDescriptor: faceDescriptor ? Array.from(faceDescriptor) : undefined,
       faceImage: faceImage || undefined,
-      fingerprintCredentialId: fingerprintData?.credentialId,
-      fingerprintPublicKey: fingerprintData?.publicKey,
-      fingerprintCounter: fingerprintData?.counter || 0,
+      webauthnUserId: fingerprint?.userHandle,
       biometricMethods
     });
     
+    if (fingerprint) {
+      student.addFingerprintCredential(fingerprint.registration, fingerprintLabel);
+    }
+    
+    // The enrollment capture becomes the first template in the student's gallery
+    const enrollmentTemplate = faceTemplate
+      ? student.addFaceTemplate({
+        descriptor: Array.from(faceTemplate.descriptor),
+        quality: faceTemplate.quality,
+        source: 'enrollment'
+      })
+      : undefined;
+    
+    DuplicateFaceService.recordFlag(student, duplicateCheck);
+    
     await student.save();
+    faceIndex.updateStudent(student);
     
     // Upload profile image to S3 if face image is provided
     if (faceImage) {
@@ -133,12 +211,16 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
         console.log(`✅ Profile image uploaded successfully: ${profileUploadResult.url}`);
         // Update student with S3 URL
         student.profileImageUrl = profileUploadResult.url;
+        if (enrollmentTemplate) {
+          enrollmentTemplate.imageUrl = profileUploadResult.url;
+        }
         await student.save();
       }
     }
     
     // Emit student enrolled event
     eventService.emitStudentEnrolled({
+      id: student._id.toString(),
       studentId: student.studentId,
       name: student.name,
       email: student.email,
@@ -156,7 +238,9 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
         phone: student.phone,
         course: student.course,
         profileImageUrl: student.profileImageUrl,
-        biometricMethods: student.biometricMethods
+        biometricMethods: student.biometricMethods,
+        duplicateFaceConflict: duplicateCheck.conflict,
+        qualityReport: faceTemplate?.qualityReport
       }
     };
     
@@ -186,7 +270,19 @@ export const enrollStudent = async (req: Request, res: Response): Promise<void>
 
 export const markAttendance = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { faceImage, biometricMethod = 'face', location = 'Main Campus', notes, action = 'auto' }: MarkAttendanceRequest = req.body;
+    const {
+      faceImage,
+      frames,
+      biometricMethod = 'face',
+      session: requestedSession,
+      location: requestedLocation,
+      notes,
+      action = 'auto',
+      detector
+    }: MarkAttendanceRequest = req.body;
+    
+    // Registered kiosks always record attendance at their assigned location
+    const location = req.device?.location || requestedLocation || 'Main Campus';
     
     // If fingerprint is selected, redirect to fingerprint controller
     if (biometricMethod === 'fingerprint') {
@@ -198,7 +294,10 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       return;
     }
     
-    if (!faceImage) {
+    // Liveness mode: the kiosk submits a short burst of frames instead of a single still
+    const livenessMode = Array.isArray(frames) && frames.length > 0;
+    
+    if (!faceImage && !livenessMode) {
       const response: ApiResponse = {
         success: false,
         message: 'Face image is required'
@@ -206,6 +305,16 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       res.status(400).json(response);
       return;
     }
+    
+    if (LivenessService.required && !livenessMode) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Liveness check is required. Please submit a burst of frames.',
+        code: 'LIVENESS_REQUIRED'
+      };
+      res.status(400).json(response);
+      return;
+    }
 
     if (!isModelsLoaded()) {
       const response: ApiResponse = {
@@ -217,19 +326,42 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
     }
     
     // Process and extract face descriptor
-    const imageBuffer = Buffer.from(faceImage.split(',')[1], 'base64');
-    const processedImage = await preprocessImage(imageBuffer);
-    const probeDescriptor = await extractFaceDescriptor(processedImage);
+    const detectorOptions = resolveDetectorOptions(detector);
+    let probeDescriptor: Float32Array;
+    let attendanceImage: string;
     
-    // Get all active students with their face descriptors (only those with face enrolled)
-    const students = await Student.find({ 
-      isActive: true, 
-      faceDescriptor: { $exists: true, $ne: [] } 
-    }).select('_id studentId name faceDescriptor');
+    if (livenessMode) {
+      const liveness = await LivenessService.checkFrames(frames!, detectorOptions);
+      
+      if (!liveness.passed || !liveness.descriptor) {
+        console.log(`🚫 Liveness check failed: ${liveness.code} - ${liveness.reason}`);
+        const { descriptor, ...report } = liveness;
+        const response: ApiResponse = {
+          success: false,
+          message: liveness.reason,
+          code: liveness.code,
+          data: { liveness: report }
+        };
+        res.status(422).json(response);
+        return;
+      }
+      
+      probeDescriptor = liveness.descriptor;
+      attendanceImage = faceImage || frames![liveness.bestFrameIndex];
+    } else {
+      const imageBuffer = Buffer.from(faceImage!.split(',')[1], 'base64');
+      const processedImage = await preprocessImage(imageBuffer);
+      probeDescriptor = await extractFaceDescriptor(processedImage, detectorOptions);
+      attendanceImage = faceImage!;
+    }
     
-    console.log(`🔍 Found ${students.length} students enrolled with face recognition`);
+    // Active students with face templates come from the in-memory face index
+    await faceIndex.ensureReady();
+    const enrolledCount = faceIndex.getActiveStudentCount();
     
-    if (students.length === 0) {
+    console.log(`🔍 Found ${enrolledCount} students enrolled with face recognition`);
+    
+    if (enrolledCount === 0) {
       const response: ApiResponse = {
         success: false,
         message: 'No students enrolled with face recognition'
@@ -238,10 +370,9 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       return;
     }
     
-    // Find best match - filter students to ensure they have faceDescriptor
-    const studentsWithFace = students.filter(s => s.faceDescriptor && s.faceDescriptor.length === 128);
-    console.log(`🔍 Searching for face match among ${studentsWithFace.length} students with threshold 0.6...`);
-    const match = await findBestMatch(probeDescriptor, studentsWithFace as any, 0.6);
+    // Find best match
+    console.log(`🔍 Searching for face match among ${enrolledCount} students with threshold 0.6...`);
+    const match = await faceIndex.findBestMatch(probeDescriptor, 0.6);
     
     if (match) {
       console.log(`✅ Found match: ${match.name} (${match.studentIdString}) with confidence ${match.confidence.toFixed(3)}`);
@@ -259,37 +390,46 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       return;
     }
     
-    // Check current login status for today
+    // Courses with a timetable record attendance per class period
+    const matchedStudent = await Student.findById(match.studentId).select('course');
+    const { session: classSession, error: sessionError } = await TimetableService.resolveScanSession(
+      matchedStudent!.course,
+      requestedSession
+    );
+    
+    if (sessionError) {
+      const response: ApiResponse = {
+        success: false,
+        message: sessionError,
+        code: 'SESSION_NOT_APPLICABLE'
+      };
+      res.status(400).json(response);
+      return;
+    }
+    
+    const period = classSession ? classSession.subject : 'today';
+    
+    // Late, half-day and early-leave thresholds for this course and location
+    const attendanceRule = await AttendanceRuleService.findRule(matchedStudent!.course, location);
+    
+    // Check current login status for today (or for the current class)
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
     const existingAttendance = await Attendance.findOne({
       student: match.studentId,
-      date: { $gte: today }
+      date: { $gte: today },
+      session: classSession ? classSession._id.toString() : null
     });
     
     // Intelligent login/logout detection
     let actionType: 'login' | 'logout' = 'login';
     
     if (action === 'auto') {
-      // Auto-detect: if already logged in (has timeIn but no timeOut), then logout
+      // Auto-detect: logged in (no timeOut) means logout; otherwise log in, starting
+      // another interval when the student already left once today
       if (existingAttendance && existingAttendance.timeIn && !existingAttendance.timeOut) {
         actionType = 'logout';
-      } else if (existingAttendance && existingAttendance.timeOut) {
-        // Already completed login/logout cycle for today
-        const response: ApiResponse = {
-          success: false,
-          message: 'You have already completed your attendance for today',
-          data: {
-            studentId: match.studentIdString,
-            name: match.name,
-            timeIn: existingAttendance.timeIn,
-            timeOut: existingAttendance.timeOut,
-            isLoggedIn: false
-          }
-        };
-        res.status(400).json(response);
-        return;
       }
     } else {
       actionType = action as 'login' | 'logout';
@@ -310,7 +450,7 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       if (existingAttendance.timeOut) {
         const response: ApiResponse = {
           success: false,
-          message: 'You have already logged out for today',
+          message: `You have already logged out for ${period}`,
           data: {
             studentId: match.studentIdString,
             name: match.name,
@@ -325,12 +465,13 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       
       // Process logout
       const now = new Date();
-      existingAttendance.timeOut = now;
+      const interval = existingAttendance.checkOut(now)!;
+      existingAttendance.status = AttendanceRuleService.classifyLogout(attendanceRule, existingAttendance, now, classSession);
       
       // Upload logout image to S3
       console.log(`📤 Uploading logout image to S3 for ${match.name} (${match.studentIdString})`);
       const logoutUploadResult = await s3Service.uploadAttendanceImage(
-        faceImage,
+        attendanceImage,
         match.studentIdString,
         match.name,
         match.studentId,
@@ -341,12 +482,13 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       if (logoutUploadResult.success) {
         console.log(`✅ Logout image uploaded successfully: ${logoutUploadResult.url}`);
         existingAttendance.logoutPhotoUrl = logoutUploadResult.url;
+        interval.logoutPhotoUrl = logoutUploadResult.url;
       }
       
       await existingAttendance.save();
       
-      // Calculate duration
-      const duration = now.getTime() - existingAttendance.timeIn.getTime();
+      // Calculate duration across every interval of the day
+      const duration = existingAttendance.totalDuration(now);
       const hours = Math.floor(duration / (1000 * 60 * 60));
       const minutes = Math.floor((duration % (1000 * 60 * 60)) / (1000 * 60));
       
@@ -357,7 +499,8 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
         timeIn: existingAttendance.timeIn,
         confidence: match.confidence,
         status: existingAttendance.status,
-        action: 'logout'
+        action: 'logout',
+        subject: existingAttendance.subject
       });
       
       const response: ApiResponse = {
@@ -369,9 +512,11 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
           timeIn: existingAttendance.timeIn,
           timeOut: now,
           duration: duration,
+          intervals: existingAttendance.intervals.length,
           status: existingAttendance.status,
           confidence: match.confidence,
           location: existingAttendance.location,
+          session: classSession ? TimetableService.summarize(classSession) : undefined,
           action: 'logout',
           isLoggedIn: false
         }
@@ -381,8 +526,23 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    if (existingAttendance && !existingAttendance.timeOut) {
+      const response: ApiResponse = {
+        success: false,
+        message: `You are already logged in for ${period}`,
+        data: {
+          studentId: match.studentIdString,
+          name: match.name,
+          timeIn: existingAttendance.timeIn,
+          isLoggedIn: true
+        }
+      };
+      res.status(400).json(response);
+      return;
+    }
+    
     const now = new Date();
-    const status = 'present';
+    const status = AttendanceRuleService.classifyLogin(attendanceRule, now, classSession);
     
     // Get client IP address with fallback
     const clientIP = req.ip || 
@@ -397,7 +557,7 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
     console.log(`📁 Folder structure: students/${match.name.toLowerCase().replace(/\s+/g, '-')}/${match.studentId}/images/`);
     
     const loginUploadResult = await s3Service.uploadAttendanceImage(
-      faceImage, 
+      attendanceImage, 
       match.studentIdString,
       match.name,
       match.studentId,
@@ -413,6 +573,43 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       console.log(`✅ Login image uploaded successfully: ${loginUploadResult.url}`);
     }
     
+    // Back after logging out earlier: add an interval to the same record, keeping its status
+    if (existingAttendance) {
+      existingAttendance.checkIn(now, loginUploadResult.success ? loginUploadResult.url : undefined);
+      await existingAttendance.save();
+      
+      eventService.emitAttendanceMarked({
+        studentId: match.studentIdString,
+        name: match.name,
+        timeIn: now,
+        confidence: match.confidence,
+        status: existingAttendance.status,
+        action: 'login',
+        subject: existingAttendance.subject
+      });
+      
+      const response: ApiResponse = {
+        success: true,
+        message: classSession ? `Welcome back to ${classSession.subject}!` : 'Welcome back!',
+        data: {
+          studentId: match.studentIdString,
+          name: match.name,
+          timeIn: now,
+          duration: existingAttendance.totalDuration(now),
+          intervals: existingAttendance.intervals.length,
+          status: existingAttendance.status,
+          confidence: match.confidence,
+          location: existingAttendance.location,
+          session: classSession ? TimetableService.summarize(classSession) : undefined,
+          action: 'login',
+          isLoggedIn: true
+        }
+      };
+      
+      res.json(response);
+      return;
+    }
+    
     // Mark attendance
     const attendance = new Attendance({
       student: match.studentId,
@@ -421,12 +618,16 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
       status,
       confidence: match.confidence,
       biometricMethod: 'face',
+      session: classSession?._id.toString(),
+      subject: classSession?.subject,
       location,
       notes,
       loginPhotoUrl: loginUploadResult.success ? loginUploadResult.url : undefined,
       deviceInfo: {
         userAgent: req.get('User-Agent') || 'Unknown',
-        ip: cleanIP
+        ip: cleanIP,
+        device: req.device?.id,
+        deviceName: req.device?.name
       }
     });
     
@@ -436,15 +637,16 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
     eventService.emitAttendanceMarked({
       studentId: match.studentIdString,
       name: match.name,
-      timeIn: attendance.timeIn,
+      timeIn: now,
       confidence: match.confidence,
       status: attendance.status,
-      action: 'login'
+      action: 'login',
+      subject: attendance.subject
     });
     
     const response: ApiResponse = {
       success: true,
-      message: 'Login successful! Have a great day!',
+      message: classSession ? `Login successful for ${classSession.subject}!` : 'Login successful! Have a great day!',
       data: {
         studentId: match.studentIdString,
         name: match.name,
@@ -452,6 +654,7 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
         status: attendance.status,
         confidence: match.confidence,
         location: attendance.location,
+        session: classSession ? TimetableService.summarize(classSession) : undefined,
         action: 'login',
         isLoggedIn: true
       }
@@ -460,6 +663,11 @@ export const markAttendance = async (req: Request, res: Response): Promise<void>
     res.json(response);
     
   } catch (error: any) {
+    if (error instanceof FaceWorkerQueueFullError) {
+      sendFaceWorkersBusy(res, error.retryAfterSeconds);
+      return;
+    }
+
     console.error('❌ Attendance marking error:', error);
     
     let message = 'Attendance marking failed';
@@ -485,12 +693,35 @@ export const getAttendanceStats = async (req: Request, res: Response): Promise<v
     today.setHours(0, 0, 0, 0);
     
     const totalStudents = await Student.countDocuments({ isActive: true });
-    const presentToday = await Attendance.countDocuments({
+    // A student attending several class periods still counts once
+    const presentTodayIds: string[] = await Attendance.distinct('student', {
       date: { $gte: today },
-      status: { $in: ['present', 'late'] }
+      status: { $in: ATTENDED_STATUSES }
     });
+    const presentToday = presentTodayIds.length;
+    
+    const studentsByStatus = await Attendance.aggregate([
+      { $match: { date: { $gte: today }, status: { $in: ATTENDED_STATUSES } } },
+      { $group: { _id: '$status', students: { $addToSet: '$student' } } }
+    ]);
+    const countStatus = (status: string) => studentsByStatus.find(row => row._id === status)?.students.length || 0;
+    const statusToday: AttendanceStatusCounts = {
+      present: countStatus('present'),
+      late: countStatus('late'),
+      halfDay: countStatus('half-day'),
+      earlyLeave: countStatus('early-leave')
+    };
+    
+    const weekStart = new Date(today);
+    weekStart.setDate(weekStart.getDate() - 6);
+    const resolveDay = await AcademicCalendarService.loadResolver(weekStart, today);
+    const studentsByCourse = await countActiveStudentsByCourse();
+    const leaves = await LeaveService.getApprovedLeaves(weekStart, today);
+    const excusedToday = countExcusedStudents(leaves, today, presentTodayIds);
     
-    const attendanceRate = totalStudents > 0 ? (presentToday / totalStudents) * 100 : 0;
+    // Only students whose course has classes today are expected in
+    const expectedToday = countExpectedStudents(studentsByCourse, resolveDay, today);
+    const attendanceRate = expectedToday > 0 ? (presentToday / expectedToday) * 100 : 0;
     
     // Get recent attendance (last 10)
     const recentAttendance = await Attendance.find({
@@ -501,7 +732,7 @@ export const getAttendanceStats = async (req: Request, res: Response): Promise<v
     .limit(10);
     
     // Get weekly trend data (last 7 days)
-    const weeklyTrend = await getWeeklyTrendData(totalStudents);
+    const weeklyTrend = await getWeeklyTrendData(studentsByCourse, resolveDay, leaves);
     
     const response: ApiResponse = {
       success: true,
@@ -509,13 +740,16 @@ export const getAttendanceStats = async (req: Request, res: Response): Promise<v
       data: {
         totalStudents,
         presentToday,
+        excusedToday,
+        statusToday,
         attendanceRate: Math.round(attendanceRate * 100) / 100,
         recentAttendance: recentAttendance.map(att => ({
           studentId: att.studentId,
           studentName: (att.student as any)?.name || 'Unknown',
           timeIn: att.timeIn,
           status: att.status,
-          confidence: att.confidence
+          confidence: att.confidence,
+          biometricMethod: att.biometricMethod
         })),
         weeklyTrend
       }
@@ -536,9 +770,48 @@ export const getAttendanceStats = async (req: Request, res: Response): Promise<v
   }
 };
 
+// Helper function to count active students per course
+const countActiveStudentsByCourse = async (): Promise<Map<string, number>> => {
+  const counts = await Student.aggregate([
+    { $match: { isActive: true } },
+    { $group: { _id: '$course', count: { $sum: 1 } } }
+  ]);
+  return new Map<string, number>(counts.map(row => [row._id, row.count]));
+};
+
+// Helper function to count students whose course has classes on a date
+const countExpectedStudents = (
+  studentsByCourse: Map<string, number>,
+  resolveDay: CalendarDayResolver,
+  date: Date
+): number => {
+  let expected = 0;
+  studentsByCourse.forEach((count, course) => {
+    if (resolveDay(date, course).type === 'working') {
+      expected += count;
+    }
+  });
+  return expected;
+};
+
+// Helper function to count students on approved leave who did not turn up anyway
+const countExcusedStudents = (leaves: ILeave[], date: Date, presentIds: string[]): number => {
+  const present = new Set(presentIds.map(id => id.toString()));
+  const excused = new Set(
+    leaves
+      .filter(leave => leave.startDate <= date && date <= leave.endDate && !present.has(leave.student))
+      .map(leave => leave.student)
+  );
+  return excused.size;
+};
+
 // Helper function to get weekly trend data
-const getWeeklyTrendData = async (totalStudents: number) => {
-  const weeklyTrend = [];
+const getWeeklyTrendData = async (
+  studentsByCourse: Map<string, number>,
+  resolveDay: CalendarDayResolver,
+  leaves: ILeave[]
+): Promise<WeeklyTrendData[]> => {
+  const weeklyTrend: WeeklyTrendData[] = [];
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   
   // Get data for the last 7 days
@@ -551,21 +824,32 @@ const getWeeklyTrendData = async (totalStudents: number) => {
     nextDay.setDate(nextDay.getDate() + 1);
     
     // Count present students for this day
-    const presentCount = await Attendance.countDocuments({
+    const presentIds: string[] = await Attendance.distinct('student', {
       date: { 
         $gte: date,
         $lt: nextDay
       },
-      status: { $in: ['present', 'late'] }
+      status: { $in: ATTENDED_STATUSES }
     });
+    const presentCount = presentIds.length;
+    
+    // Nobody is absent on a day their course has off, or while on approved leave
+    const expectedCount = countExpectedStudents(studentsByCourse, resolveDay, date);
+    const excusedCount = expectedCount > 0 ? countExcusedStudents(leaves, date, presentIds) : 0;
     
-    const absentCount = Math.max(0, totalStudents - presentCount);
+    // Once the register is closed the absences recorded at roll call are final
+    const closedRegister = await rollCall.findRollCall(date);
+    const absentCount = closedRegister
+      ? (await Attendance.distinct('student', { date: { $gte: date, $lt: nextDay }, status: 'absent' })).length
+      : Math.max(0, expectedCount - presentCount - excusedCount);
     
     weeklyTrend.push({
       name: dayNames[date.getDay()],
       present: presentCount,
       absent: absentCount,
-      date: date.toISOString().split('T')[0]
+      excused: excusedCount,
+      date: date.toISOString().split('T')[0],
+      workingDay: expectedCount > 0 || absentCount > 0
     });
   }
   
@@ -574,7 +858,7 @@ const getWeeklyTrendData = async (totalStudents: number) => {
 
 export const checkLoginStatus = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { faceImage } = req.body;
+    const { faceImage, detector } = req.body;
     
     if (!faceImage) {
       const response: ApiResponse = {
@@ -595,17 +879,15 @@ export const checkLoginStatus = async (req: Request, res: Response): Promise<voi
     }
     
     // Process and extract face descriptor
+    const detectorOptions = resolveDetectorOptions(detector);
     const imageBuffer = Buffer.from(faceImage.split(',')[1], 'base64');
     const processedImage = await preprocessImage(imageBuffer);
-    const probeDescriptor = await extractFaceDescriptor(processedImage);
+    const probeDescriptor = await extractFaceDescriptor(processedImage, detectorOptions);
     
-    // Get all active students with face recognition
-    const students = await Student.find({ 
-      isActive: true,
-      faceDescriptor: { $exists: true, $ne: [] }
-    }).select('_id studentId name faceDescriptor');
+    // Active students with face templates come from the in-memory face index
+    await faceIndex.ensureReady();
     
-    if (students.length === 0) {
+    if (faceIndex.getActiveStudentCount() === 0) {
       const response: ApiResponse = {
         success: false,
         message: 'No students enrolled with face recognition'
@@ -614,9 +896,8 @@ export const checkLoginStatus = async (req: Request, res: Response): Promise<voi
       return;
     }
     
-    // Find best match - filter students to ensure they have faceDescriptor
-    const studentsWithFace = students.filter(s => s.faceDescriptor && s.faceDescriptor.length === 128);
-    const match = await findBestMatch(probeDescriptor, studentsWithFace as any, 0.6);
+    // Find best match
+    const match = await faceIndex.findBestMatch(probeDescriptor, 0.6);
     
     if (!match) {
       const response: ApiResponse<LoginStatusResponse> = {
@@ -630,13 +911,17 @@ export const checkLoginStatus = async (req: Request, res: Response): Promise<voi
       return;
     }
     
-    // Check today's attendance
+    // Check today's attendance for the class in progress, if any
+    const matchedStudent = await Student.findById(match.studentId).select('course');
+    const classSession = await TimetableService.resolveSession(matchedStudent!.course);
+    
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
     const existingAttendance = await Attendance.findOne({
       student: match.studentId,
-      date: { $gte: today }
+      date: { $gte: today },
+      session: classSession ? classSession._id.toString() : null
     });
     
     if (!existingAttendance || !existingAttendance.timeIn) {
@@ -654,26 +939,32 @@ export const checkLoginStatus = async (req: Request, res: Response): Promise<voi
     }
     
     const isLoggedIn = !existingAttendance.timeOut;
-    const duration = isLoggedIn 
-      ? Date.now() - existingAttendance.timeIn.getTime() 
-      : existingAttendance.timeOut!.getTime() - existingAttendance.timeIn.getTime();
+    const duration = existingAttendance.totalDuration();
     
     const response: ApiResponse<LoginStatusResponse> = {
       success: true,
-      message: isLoggedIn ? 'Currently logged in' : 'Already logged out',
+      message: isLoggedIn
+        ? 'Currently logged in'
+        : existingAttendance.autoCheckout ? 'Checked out automatically' : 'Already logged out',
       data: {
         isLoggedIn,
         studentId: match.studentIdString,
         name: match.name,
         timeIn: existingAttendance.timeIn,
         duration,
-        location: existingAttendance.location
+        location: existingAttendance.location,
+        autoCheckout: existingAttendance.autoCheckout
       }
     };
     
     res.json(response);
     
   } catch (error: any) {
+    if (error instanceof FaceWorkerQueueFullError) {
+      sendFaceWorkersBusy(res, error.retryAfterSeconds);
+      return;
+    }
+
     console.error('❌ Login status check error:', error);
     
     const response: ApiResponse = {
@@ -702,6 +993,7 @@ export const getStudentAttendance = async (req: Request, res: Response): Promise
     
     const attendance = await Attendance.find(query)
       .populate('student', 'name studentId email')
+      .populate('enteredBy', 'name email')
       .sort({ date: -1, timeIn: -1 });
     
     const response: ApiResponse = {
@@ -751,27 +1043,69 @@ export const getAbsentStudents = async (req: Request, res: Response): Promise<vo
     
     console.log(`📊 Found ${allStudents.length} students enrolled on or before ${targetDate.toDateString()}`);
     
+    // Students whose course has the day off (weekly off, holiday, vacation) are not absent
+    const resolveDay = await AcademicCalendarService.loadResolver(targetDate, targetDate);
+    const calendarDay = resolveDay(targetDate);
+    const expectedStudents = allStudents.filter(student => resolveDay(targetDate, student.course).type === 'working');
+    
     // Get students who marked attendance on target date
     const presentStudents = await Attendance.find({
       date: {
         $gte: targetDate,
         $lt: nextDay
-      }
+      },
+      status: { $in: ATTENDED_STATUSES }
     }).distinct('student');
     
     console.log(`✅ ${presentStudents.length} students marked attendance on ${targetDate.toDateString()}`);
     
-    // Filter absent students (those not in presentStudents array)
-    const absentStudents: AbsentStudent[] = allStudents
+    // Students who did not turn up but are on approved leave are excused, not absent
+    const resolveLeave = await LeaveService.loadResolver(targetDate, targetDate);
+    const absentStudents: AbsentStudent[] = [];
+    const excusedStudents: ExcusedStudent[] = [];
+    
+    // A closed register lists the students marked absent at roll call, even if
+    // they have since been deactivated or changed course
+    const closedRegister = await rollCall.findRollCall(targetDate);
+    if (closedRegister) {
+      const absentRecords = await Attendance.find({
+        date: { $gte: targetDate, $lt: nextDay },
+        status: 'absent'
+      }).populate('student', 'studentId name phone course email');
+      
+      absentRecords.forEach(record => {
+        const student = record.student as unknown as IStudent | null;
+        if (!student) return;
+        absentStudents.push({
+          _id: student._id.toString(),
+          studentId: student.studentId,
+          name: student.name,
+          phone: student.phone,
+          course: record.course || student.course,
+          email: student.email
+        });
+      });
+    }
+    
+    expectedStudents
       .filter(student => !presentStudents.some(id => id.toString() === student._id.toString()))
-      .map(student => ({
-        _id: student._id.toString(),
-        studentId: student.studentId,
-        name: student.name,
-        phone: student.phone,
-        course: student.course,
-        email: student.email
-      }));
+      .forEach(student => {
+        const absentStudent: AbsentStudent = {
+          _id: student._id.toString(),
+          studentId: student.studentId,
+          name: student.name,
+          phone: student.phone,
+          course: student.course,
+          email: student.email
+        };
+        
+        const leave = resolveLeave(absentStudent._id, targetDate);
+        if (leave) {
+          excusedStudents.push({ ...absentStudent, leaveId: leave._id.toString(), leaveType: leave.type });
+        } else if (!closedRegister) {
+          absentStudents.push(absentStudent);
+        }
+      });
     
     // Generate WhatsApp links for absent students
     const whatsappLinks = absentStudents.map(student => {
@@ -787,13 +1121,21 @@ export const getAbsentStudents = async (req: Request, res: Response): Promise<vo
     
     const response: ApiResponse = {
       success: true,
-      message: `Found ${absentStudents.length} absent students`,
+      message: expectedStudents.length === 0 && absentStudents.length === 0 && calendarDay.type !== 'working'
+        ? `No classes on ${targetDate.toDateString()}${calendarDay.name ? ` (${calendarDay.name})` : ''}`
+        : `Found ${absentStudents.length} absent students`,
       data: {
         date: targetDate.toISOString().split('T')[0],
-        totalStudents: allStudents.length,
+        calendar: calendarDay,
+        totalStudents: closedRegister
+          ? presentStudents.length + absentStudents.length + excusedStudents.length
+          : expectedStudents.length,
         presentCount: presentStudents.length,
         absentCount: absentStudents.length,
-        absentStudents: whatsappLinks
+        excusedCount: excusedStudents.length,
+        registerClosed: !!closedRegister,
+        absentStudents: whatsappLinks,
+        excusedStudents
       }
     };
     
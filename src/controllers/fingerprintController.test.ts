@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import WebAuthnChallenge from '../models/WebAuthnChallenge';
+import { FingerprintService } from '../services/fingerprintService';
+import { eventService } from '../services/eventService';
+import { markAttendanceWithFingerprint } from './fingerprintController';
+import fixtures from '../services/__fixtures__/webauthn.json';
+
+const es256 = fixtures.credentials.ES256;
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+describe('markAttendanceWithFingerprint', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      WEBAUTHN_RP_ID: fixtures.rpId,
+      WEBAUTHN_ALLOWED_ORIGINS: fixtures.origin
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  it('raises a cloned authenticator alert when the counter goes backwards', async () => {
+    const student = { studentId: 'MCA001', name: 'Asha Rao', save: jest.fn() };
+    const credential = { publicKey: es256.spkiPublicKey, algorithm: es256.algorithm, counter: 7, revoked: false };
+    jest.spyOn(FingerprintService, 'findCredentialOwner').mockResolvedValue({ student, credential } as any);
+    jest.spyOn(WebAuthnChallenge, 'findOneAndUpdate').mockResolvedValue({ challenge: es256.assertion.challenge } as any);
+    const emitSecurityAlert = jest.spyOn(eventService, 'emitSecurityAlert').mockImplementation(() => undefined);
+
+    const req = {
+      body: { fingerprintData: es256.assertion.request },
+      device: { id: 'device-id', name: 'Front Gate', location: 'Main Campus' }
+    } as unknown as Request;
+    const res = mockResponse();
+
+    await markAttendanceWithFingerprint(req, res);
+
+    expect(emitSecurityAlert).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'cloned-authenticator',
+      studentId: 'MCA001',
+      credentialId: es256.assertion.request.credentialId,
+      storedCounter: 7,
+      receivedCounter: es256.assertion.signCount,
+      deviceName: 'Front Gate'
+    }));
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, code: 'COUNTER_REGRESSION' }));
+    expect(student.save).not.toHaveBeenCalled();
+  });
+});
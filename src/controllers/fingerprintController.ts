@@ -1,21 +1,25 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import Student from '../models/Student';
 import Attendance from '../models/Attendance';
 import { FingerprintService } from '../services/fingerprintService';
 import { eventService } from '../services/eventService';
-import { ApiResponse, FingerprintVerificationRequest } from '../types';
+import { TimetableService } from '../services/timetableService';
+import { AttendanceRuleService } from '../services/attendanceRuleService';
+import { ApiResponse, FingerprintVerificationRequest, RegistrationOptionsRequest, RegistrationVerifyRequest } from '../types';
 
 /**
- * Generate challenge for fingerprint enrollment/authentication
+ * Generate a single-use challenge for fingerprint authentication
+ * The challenge is stored server side and only accepted from the requesting kiosk
  */
 export const generateChallenge = async (req: Request, res: Response): Promise<void> => {
   try {
-    const challenge = FingerprintService.generateChallenge();
+    const challenge = await FingerprintService.createAuthenticationChallenge(req.device?.id);
     
     const response: ApiResponse = {
       success: true,
       message: 'Challenge generated successfully',
-      data: { challenge }
+      data: challenge
     };
     
     res.json(response);
@@ -32,6 +36,120 @@ export const generateChallenge = async (req: Request, res: Response): Promise<vo
   }
 };
 
+/**
+ * Issue WebAuthn creation options for registering a fingerprint
+ * Pass an existing student's id to add a credential, or only a name for a new enrollment
+ */
+export const getRegistrationOptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { student: studentMongoId, name }: RegistrationOptionsRequest = req.body;
+
+    let options;
+
+    if (studentMongoId) {
+      const student = await Student.findById(studentMongoId);
+
+      if (!student) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Student not found'
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      // Give existing students a stable user handle on their first registration
+      if (!student.webauthnUserId) {
+        student.webauthnUserId = FingerprintService.toBase64Url(crypto.randomBytes(32));
+        await student.save();
+      }
+
+      options = await FingerprintService.createRegistrationOptions({
+        studentMongoId: student._id.toString(),
+        userHandle: student.webauthnUserId,
+        userName: student.studentId,
+        displayName: student.name,
+        excludeCredentialIds: [
+          ...student.fingerprintCredentials.map(c => c.credentialId),
+          ...(student.fingerprintCredentialId ? [student.fingerprintCredentialId] : [])
+        ],
+        createdBy: req.user?.id
+      });
+    } else {
+      options = await FingerprintService.createRegistrationOptions({
+        userName: name!,
+        displayName: name!,
+        excludeCredentialIds: [],
+        createdBy: req.user?.id
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Registration options generated successfully',
+      data: options
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('❌ Registration options error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to generate registration options',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Verify a WebAuthn registration response
+ * The verified credential is held until enrollment or a biometrics update claims it
+ */
+export const verifyRegistration = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { registrationId, credential }: RegistrationVerifyRequest = req.body;
+
+    const result = await FingerprintService.verifyRegistration(registrationId, credential);
+
+    if (!result.verified) {
+      console.log(`🚫 Fingerprint registration rejected: ${result.code} - ${result.error}`);
+      const response: ApiResponse = {
+        success: false,
+        message: result.error || 'Fingerprint registration failed',
+        code: result.code
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Fingerprint registered successfully. Submit the registration id with the enrollment to save it.',
+      data: {
+        registrationId,
+        credentialId: result.data!.credentialId,
+        attestationFormat: result.data!.attestationFormat,
+        userVerified: result.data!.userVerified
+      }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('❌ Registration verification error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to verify fingerprint registration',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
 /**
  * Verify fingerprint and mark attendance
  */
@@ -39,16 +157,21 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
   try {
     const { 
       fingerprintData, 
-      location = 'Main Campus', 
+      session: requestedSession,
+      location: requestedLocation, 
       notes, 
       action = 'auto' 
     }: {
       fingerprintData: FingerprintVerificationRequest;
+      session?: string;
       location?: string;
       notes?: string;
       action?: 'auto' | 'login' | 'logout';
     } = req.body;
     
+    // Registered kiosks always record attendance at their assigned location
+    const location = req.device?.location || requestedLocation || 'Main Campus';
+    
     if (!fingerprintData || !fingerprintData.credentialId) {
       const response: ApiResponse = {
         success: false,
@@ -68,13 +191,10 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
       return;
     }
 
-    // Find student with this credential ID
-    const student = await Student.findOne({ 
-      fingerprintCredentialId: fingerprintData.credentialId,
-      isActive: true 
-    });
+    // Identify the student from the user handle (discoverable credential) or the credential ID
+    const owner = await FingerprintService.findCredentialOwner(fingerprintData);
     
-    if (!student) {
+    if (!owner) {
       const response: ApiResponse = {
         success: false,
         message: 'No matching student found. Please ensure you are enrolled with fingerprint.'
@@ -83,56 +203,96 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
       return;
     }
 
-    // Verify the fingerprint assertion
-    const isValid = await FingerprintService.verifyAssertion(
+    const { student, credential } = owner;
+
+    if (credential.revoked) {
+      console.log(`🚫 Revoked fingerprint credential used for ${student.studentId}: ${credential.label}`);
+      const response: ApiResponse = {
+        success: false,
+        message: 'This fingerprint has been revoked. Please contact the office to register it again.',
+        code: 'CREDENTIAL_REVOKED'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Verify the fingerprint assertion against a challenge issued to this kiosk
+    const verification = await FingerprintService.verifyAssertion(
       fingerprintData,
-      student.fingerprintPublicKey!
+      { publicKey: credential.publicKey, algorithm: credential.algorithm, counter: credential.counter },
+      req.device?.id
     );
 
-    if (!isValid) {
+    if (verification.code === 'COUNTER_REGRESSION') {
+      eventService.emitSecurityAlert({
+        type: 'cloned-authenticator',
+        studentId: student.studentId,
+        name: student.name,
+        credentialId: fingerprintData.credentialId,
+        storedCounter: verification.data!.storedCounter,
+        receivedCounter: verification.data!.signCount,
+        deviceName: req.device?.name,
+        timestamp: new Date()
+      });
+    }
+
+    if (!verification.verified) {
+      console.log(`🚫 Fingerprint assertion rejected for ${student.studentId}: ${verification.code} - ${verification.error}`);
       const response: ApiResponse = {
         success: false,
-        message: 'Fingerprint verification failed. Please try again.'
+        message: verification.code?.startsWith('CHALLENGE_')
+          ? `${verification.error} Please request a new challenge and try again.`
+          : 'Fingerprint verification failed. Please try again.',
+        code: verification.code
       };
       res.status(401).json(response);
       return;
     }
 
-    // Update counter to prevent replay attacks
-    if (student.fingerprintCounter !== undefined) {
-      student.fingerprintCounter += 1;
-      await student.save();
-    }
+    // Store the authenticator's signature counter for clone detection
+    credential.counter = verification.data!.signCount;
+    credential.lastUsedAt = new Date();
+    await student.save();
 
-    // Check current login status for today
+    // Courses with a timetable record attendance per class period
+    const { session: classSession, error: sessionError } = await TimetableService.resolveScanSession(
+      student.course,
+      requestedSession
+    );
+    
+    if (sessionError) {
+      const response: ApiResponse = {
+        success: false,
+        message: sessionError,
+        code: 'SESSION_NOT_APPLICABLE'
+      };
+      res.status(400).json(response);
+      return;
+    }
+    
+    const period = classSession ? classSession.subject : 'today';
+    
+    // Late, half-day and early-leave thresholds for this course and location
+    const attendanceRule = await AttendanceRuleService.findRule(student.course, location);
+    
+    // Check current login status for today (or for the current class)
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
     const existingAttendance = await Attendance.findOne({
       student: student._id,
-      date: { $gte: today }
+      date: { $gte: today },
+      session: classSession ? classSession._id.toString() : null
     });
     
     // Intelligent login/logout detection
     let actionType: 'login' | 'logout' = 'login';
     
     if (action === 'auto') {
+      // Logged in means logout; otherwise log in, starting another interval when
+      // the student already left once today
       if (existingAttendance && existingAttendance.timeIn && !existingAttendance.timeOut) {
         actionType = 'logout';
-      } else if (existingAttendance && existingAttendance.timeOut) {
-        const response: ApiResponse = {
-          success: false,
-          message: 'You have already completed your attendance for today',
-          data: {
-            studentId: student.studentId,
-            name: student.name,
-            timeIn: existingAttendance.timeIn,
-            timeOut: existingAttendance.timeOut,
-            isLoggedIn: false
-          }
-        };
-        res.status(400).json(response);
-        return;
       }
     } else {
       actionType = action as 'login' | 'logout';
@@ -153,7 +313,7 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
       if (existingAttendance.timeOut) {
         const response: ApiResponse = {
           success: false,
-          message: 'You have already logged out for today',
+          message: `You have already logged out for ${period}`,
           data: {
             studentId: student.studentId,
             name: student.name,
@@ -167,10 +327,12 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
       }
       
       const now = new Date();
-      existingAttendance.timeOut = now;
+      existingAttendance.checkOut(now);
+      existingAttendance.status = AttendanceRuleService.classifyLogout(attendanceRule, existingAttendance, now, classSession);
       await existingAttendance.save();
       
-      const duration = now.getTime() - existingAttendance.timeIn.getTime();
+      // Duration across every interval of the day
+      const duration = existingAttendance.totalDuration(now);
       const hours = Math.floor(duration / (1000 * 60 * 60));
       const minutes = Math.floor((duration % (1000 * 60 * 60)) / (1000 * 60));
       
@@ -180,7 +342,8 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
         timeIn: existingAttendance.timeIn,
         confidence: 1.0,
         status: existingAttendance.status,
-        action: 'logout'
+        action: 'logout',
+        subject: existingAttendance.subject
       });
       
       const response: ApiResponse = {
@@ -192,8 +355,10 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
           timeIn: existingAttendance.timeIn,
           timeOut: now,
           duration,
+          intervals: existingAttendance.intervals.length,
           status: existingAttendance.status,
           location: existingAttendance.location,
+          session: classSession ? TimetableService.summarize(classSession) : undefined,
           action: 'logout',
           isLoggedIn: false,
           biometricMethod: 'fingerprint'
@@ -205,8 +370,61 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
     }
     
     // Handle login
+    if (existingAttendance && !existingAttendance.timeOut) {
+      const response: ApiResponse = {
+        success: false,
+        message: `You are already logged in for ${period}`,
+        data: {
+          studentId: student.studentId,
+          name: student.name,
+          timeIn: existingAttendance.timeIn,
+          isLoggedIn: true
+        }
+      };
+      res.status(400).json(response);
+      return;
+    }
+    
     const now = new Date();
-    const status = 'present';
+    
+    // Back after logging out earlier: add an interval to the same record, keeping its status
+    if (existingAttendance) {
+      existingAttendance.checkIn(now);
+      await existingAttendance.save();
+      
+      eventService.emitAttendanceMarked({
+        studentId: student.studentId,
+        name: student.name,
+        timeIn: now,
+        confidence: 1.0,
+        status: existingAttendance.status,
+        action: 'login',
+        subject: existingAttendance.subject
+      });
+      
+      const response: ApiResponse = {
+        success: true,
+        message: classSession ? `Welcome back to ${classSession.subject}!` : 'Welcome back!',
+        data: {
+          studentId: student.studentId,
+          name: student.name,
+          timeIn: now,
+          duration: existingAttendance.totalDuration(now),
+          intervals: existingAttendance.intervals.length,
+          status: existingAttendance.status,
+          location: existingAttendance.location,
+          session: classSession ? TimetableService.summarize(classSession) : undefined,
+          action: 'login',
+          isLoggedIn: true,
+          biometricMethod: 'fingerprint'
+        }
+      };
+      
+      res.json(response);
+      return;
+    }
+    
+    const status = AttendanceRuleService.classifyLogin(attendanceRule, now, classSession);
     
     const clientIP = req.ip || req.connection.remoteAddress || '127.0.0.1';
     const cleanIP = clientIP.replace(/^::ffff:/, '');
@@ -217,11 +435,15 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
       timeIn: now,
       status,
       biometricMethod: 'fingerprint',
+      session: classSession?._id.toString(),
+      subject: classSession?.subject,
       location,
       notes,
       deviceInfo: {
         userAgent: req.get('User-Agent') || 'Unknown',
-        ip: cleanIP
+        ip: cleanIP,
+        device: req.device?.id,
+        deviceName: req.device?.name
       }
     });
     
@@ -230,21 +452,23 @@ export const markAttendanceWithFingerprint = async (req: Request, res: Response)
     eventService.emitAttendanceMarked({
       studentId: student.studentId,
       name: student.name,
-      timeIn: attendance.timeIn,
+      timeIn: now,
       confidence: 1.0,
       status: attendance.status,
-      action: 'login'
+      action: 'login',
+      subject: attendance.subject
     });
     
     const response: ApiResponse = {
       success: true,
-      message: 'Login successful! Have a great day!',
+      message: classSession ? `Login successful for ${classSession.subject}!` : 'Login successful! Have a great day!',
       data: {
         studentId: student.studentId,
         name: student.name,
         timeIn: attendance.timeIn,
         status: attendance.status,
         location: attendance.location,
+        session: classSession ? TimetableService.summarize(classSession) : undefined,
         action: 'login',
         isLoggedIn: true,
         biometricMethod: 'fingerprint'
@@ -282,13 +506,11 @@ export const checkLoginStatusWithFingerprint = async (req: Request, res: Respons
       return;
     }
 
-    // Find student with this credential ID
-    const student = await Student.findOne({ 
-      fingerprintCredentialId: fingerprintData.credentialId,
-      isActive: true 
-    });
+    // Identify the student from the user handle (discoverable credential) or the credential ID
+    const owner = await FingerprintService.findCredentialOwner(fingerprintData);
+    const student = owner?.student;
     
-    if (!student) {
+    if (!student || owner.credential.revoked) {
       const response: ApiResponse = {
         success: true,
         message: 'Student not recognized',
@@ -298,13 +520,16 @@ export const checkLoginStatusWithFingerprint = async (req: Request, res: Respons
       return;
     }
 
-    // Check today's attendance
+    // Check today's attendance for the class in progress, if any
+    const classSession = await TimetableService.resolveSession(student.course);
+    
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
     const existingAttendance = await Attendance.findOne({
       student: student._id,
-      date: { $gte: today }
+      date: { $gte: today },
+      session: classSession ? classSession._id.toString() : null
     });
     
     if (!existingAttendance || !existingAttendance.timeIn) {
@@ -322,20 +547,21 @@ export const checkLoginStatusWithFingerprint = async (req: Request, res: Respons
     }
     
     const isLoggedIn = !existingAttendance.timeOut;
-    const duration = isLoggedIn 
-      ? Date.now() - existingAttendance.timeIn.getTime() 
-      : existingAttendance.timeOut!.getTime() - existingAttendance.timeIn.getTime();
+    const duration = existingAttendance.totalDuration();
     
     const response: ApiResponse = {
       success: true,
-      message: isLoggedIn ? 'Currently logged in' : 'Already logged out',
+      message: isLoggedIn
+        ? 'Currently logged in'
+        : existingAttendance.autoCheckout ? 'Checked out automatically' : 'Already logged out',
       data: {
         isLoggedIn,
         studentId: student.studentId,
         name: student.name,
         timeIn: existingAttendance.timeIn,
         duration,
-        location: existingAttendance.location
+        location: existingAttendance.location,
+        autoCheckout: existingAttendance.autoCheckout
       }
     };
     
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import Leave from '../models/Leave';
+import Student from '../models/Student';
+import { LeaveService } from '../services/leaveService';
+import { AcademicCalendarService } from '../services/academicCalendarService';
+import { rollCall } from '../services/rollCallService';
+import { ApiResponse, ILeave, LeaveRequest, LeaveReviewRequest, LeaveStatus } from '../types';
+
+/**
+ * List leave requests, optionally filtered by student, status, type or date range
+ */
+export const getLeaves = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { student, status, type, startDate, endDate } = req.query;
+
+    const query: any = {};
+    if (student) query.student = student;
+    if (status) query.status = status;
+    if (type) query.type = type;
+    if (startDate) query.endDate = { $gte: new Date(startDate as string) };
+    if (endDate) query.startDate = { $lte: new Date(endDate as string) };
+
+    const leaves = await Leave.find(query)
+      .populate('student', 'name studentId course')
+      .populate('reviewedBy', 'name email')
+      .sort({ startDate: -1 });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Leave requests retrieved successfully',
+      data: leaves
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get leave requests error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch leave requests',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Record a leave request for a student; it only excuses absences once approved
+ */
+export const submitLeave = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { student: studentMongoId, startDate, endDate, type, reason, attachmentUrl }: LeaveRequest = req.body;
+
+    const student = await Student.findById(studentMongoId).select('studentId name');
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Leave covers whole days; compare days the way they are stored
+    const startDay = AcademicCalendarService.startOfDay(new Date(startDate));
+    const endDay = AcademicCalendarService.startOfDay(new Date(endDate));
+
+    if (endDay < startDay) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'End date must not be before the start date'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const leave = new Leave({
+      student: student._id.toString(),
+      studentId: student.studentId,
+      startDate: startDay,
+      endDate: endDay,
+      type,
+      reason,
+      attachmentUrl,
+      submittedBy: req.user?.id
+    });
+
+    const overlapping = await LeaveService.findOverlappingLeave(
+      leave.student,
+      leave.startDate,
+      leave.endDate
+    );
+    if (overlapping) {
+      const response: ApiResponse = {
+        success: false,
+        message: `${student.name} already has ${overlapping.status} leave for these dates`,
+        code: 'LEAVE_OVERLAP'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await leave.save();
+
+    console.log(`📝 Leave submitted for ${student.name} (${student.studentId}) by ${req.user?.email}`);
+
+    const response: ApiResponse<ILeave> = {
+      success: true,
+      message: 'Leave request submitted successfully',
+      data: leave
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Submit leave error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: error.name === 'ValidationError' ? error.message : 'Failed to submit leave request',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(error.name === 'ValidationError' ? 400 : 500).json(response);
+  }
+};
+
+// Approval and rejection only differ in the resulting status
+const reviewLeave = async (req: Request, res: Response, status: Exclude<LeaveStatus, 'pending'>): Promise<void> => {
+  const action = status === 'approved' ? 'approve' : 'reject';
+
+  try {
+    const { id } = req.params;
+    const { note }: LeaveReviewRequest = req.body;
+
+    // Claim the pending leave atomically so two reviews never both apply. Approval
+    // deletes absent records written at roll call, so an approved leave is final
+    const leave = await Leave.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { $set: { status, reviewedBy: req.user?.id, reviewedAt: new Date(), reviewNote: note } },
+      { new: true, runValidators: true }
+    );
+
+    if (!leave) {
+      const existing = await Leave.findById(id).select('status');
+
+      if (!existing) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Leave request not found'
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: false,
+        message: `Leave request has already been ${existing.status}`,
+        code: 'LEAVE_ALREADY_REVIEWED'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Days already closed at roll call become excused instead of absent
+    if (status === 'approved') {
+      await rollCall.clearAbsences(leave.student, leave.startDate, leave.endDate, 'excused');
+    }
+
+    console.log(`📝 Leave ${leave._id} for ${leave.studentId} ${status} by ${req.user?.email}`);
+
+    const response: ApiResponse<ILeave> = {
+      success: true,
+      message: `Leave request ${status}`,
+      data: leave
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error(`❌ ${action} leave error:`, error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: `Failed to ${action} leave request`,
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const approveLeave = (req: Request, res: Response): Promise<void> =>
+  reviewLeave(req, res, 'approved');
+
+export const rejectLeave = (req: Request, res: Response): Promise<void> =>
+  reviewLeave(req, res, 'rejected');
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import RollCall from '../models/RollCall';
+import { rollCall } from '../services/rollCallService';
+import { AcademicCalendarService } from '../services/academicCalendarService';
+import { ApiResponse, IRollCall, RollCallRequest } from '../types';
+
+/**
+ * List closed registers, newest first, optionally within a date range
+ */
+export const getRollCalls = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const query: any = {};
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = AcademicCalendarService.startOfDay(new Date(startDate as string));
+      if (endDate) query.date.$lte = AcademicCalendarService.startOfDay(new Date(endDate as string));
+    }
+
+    const rollCalls = await RollCall.find(query)
+      .populate('closedBy', 'name email')
+      .sort({ date: -1 });
+
+    const response: ApiResponse<IRollCall[]> = {
+      success: true,
+      message: 'Roll calls retrieved successfully',
+      data: rollCalls
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get roll calls error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch roll calls',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Close the register for a finished day now instead of waiting for the scheduled job
+ */
+export const closeRollCall = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { date }: RollCallRequest = req.body;
+
+    const day = AcademicCalendarService.startOfDay(new Date(date));
+
+    // Students can still check in today, so only finished days can be closed
+    if (day >= AcademicCalendarService.startOfDay(new Date())) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Only past days can be closed',
+        code: 'DAY_NOT_FINISHED'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const closed = await rollCall.closeRegister(day, req.user?.id);
+
+    if (!closed) {
+      const response: ApiResponse = {
+        success: false,
+        message: `The register for ${day.toDateString()} is already closed`,
+        code: 'ROLL_CALL_CLOSED'
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    console.log(`📋 Register for ${day.toDateString()} closed by ${req.user?.email}: ${closed.absent} absent`);
+
+    const response: ApiResponse<IRollCall> = {
+      success: true,
+      message: `Register closed: ${closed.absent} absent, ${closed.excused} excused`,
+      data: closed
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Close roll call error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to close the register',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
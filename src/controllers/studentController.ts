@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import Student from '../models/Student';
-import Attendance from '../models/Attendance';
+import Attendance, { ATTENDED_STATUSES } from '../models/Attendance';
+import ClassSession from '../models/ClassSession';
 import { 
   ApiResponse, 
   StudentListResponse, 
@@ -9,10 +10,38 @@ import {
   UpdateBiometricsRequest,
   CalendarAttendanceData,
   UpdateAttendanceRequest,
-  AttendanceStats
+  ManualAttendanceRequest,
+  BulkManualAttendanceRequest,
+  BulkManualAttendanceResult,
+  IClassSession,
+  AttendanceStats,
+  AddFaceTemplateRequest,
+  FaceTemplateListItem,
+  IFaceTemplate,
+  DuplicateFaceCheckResult,
+  FaceTemplateExtraction,
+  FaceQualityReport,
+  IVerifiedRegistration,
+  IFingerprintCredential,
+  FingerprintCredentialListItem
 } from '../types';
-import { extractFaceDescriptor, preprocessImage, isModelsLoaded } from '../middleware/faceRecognition';
+import {
+  extractFaceTemplate,
+  preprocessImage,
+  isModelsLoaded,
+  resolveDetectorOptions
+} from '../middleware/faceRecognition';
 import { s3Service } from '../services/s3Service';
+import { eventService } from '../services/eventService';
+import { DuplicateFaceService } from '../services/duplicateFaceService';
+import { faceIndex } from '../services/faceIndexService';
+import { FingerprintService } from '../services/fingerprintService';
+import { AcademicCalendarService } from '../services/academicCalendarService';
+import { LeaveService } from '../services/leaveService';
+import { rollCall } from '../services/rollCallService';
+import { FaceWorkerQueueFullError } from '../services/faceWorkerPool';
+import { sendFaceWorkersBusy } from '../middleware/faceWorkerBackpressure';
+import { rejectDuplicateFace, rejectLowQualityFace } from '../middleware/faceEnrollment';
 
 export const getAllStudents = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -21,6 +50,7 @@ export const getAllStudents = async (req: Request, res: Response): Promise<void>
       course = '', 
       status = 'all', 
       biometricMethod = '',
+      duplicateFace = '',
       page = '1', 
       limit = '20',
       sortBy = 'enrolledAt',
@@ -62,6 +92,11 @@ export const getAllStudents = async (req: Request, res: Response): Promise<void>
       query.biometricMethods = 'fingerprint';
     }
 
+    // Duplicate face filter
+    if (duplicateFace === 'flagged') {
+      query['duplicateFaceFlags.0'] = { $exists: true };
+    }
+
     // Sorting
     const sortOptions: any = {};
     sortOptions[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
@@ -71,7 +106,7 @@ export const getAllStudents = async (req: Request, res: Response): Promise<void>
 
     // Get students
     const students = await Student.find(query)
-      .select('-faceDescriptor -faceImage -fingerprintPublicKey')
+      .select('-faceDescriptor -faceTemplates -faceImage -fingerprintPublicKey -fingerprintCredentials')
       .sort(sortOptions)
       .skip(skip)
       .limit(limitNum);
@@ -130,7 +165,7 @@ export const getStudentById = async (req: Request, res: Response): Promise<void>
   try {
     const { id } = req.params;
 
-    const student = await Student.findById(id).select('-faceDescriptor -faceImage -fingerprintPublicKey');
+    const student = await Student.findById(id).select('-faceDescriptor -faceTemplates.descriptor -faceImage -fingerprintPublicKey -fingerprintCredentials.publicKey');
 
     if (!student) {
       const response: ApiResponse = {
@@ -227,6 +262,12 @@ export const updateStudent = async (req: Request, res: Response): Promise<void>
 
     await student.save();
 
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'profile'
+    });
+
     const response: ApiResponse = {
       success: true,
       message: 'Student updated successfully',
@@ -261,9 +302,9 @@ export const updateStudent = async (req: Request, res: Response): Promise<void>
 export const updateStudentBiometrics = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { faceImage, fingerprintData }: UpdateBiometricsRequest = req.body;
+    const { faceImage, fingerprintRegistrationId, fingerprintLabel, allowDuplicateFace, detector }: UpdateBiometricsRequest = req.body;
 
-    if (!faceImage && !fingerprintData) {
+    if (!faceImage && !fingerprintRegistrationId) {
       const response: ApiResponse = {
         success: false,
         message: 'At least one biometric method (face or fingerprint) must be provided'
@@ -283,6 +324,37 @@ export const updateStudentBiometrics = async (req: Request, res: Response): Prom
       return;
     }
 
+    // Only credentials verified by /api/fingerprint/register/verify for this student are accepted
+    let fingerprint: { registration: IVerifiedRegistration; userHandle: string } | undefined;
+    if (fingerprintRegistrationId) {
+      if (student.activeFingerprintCredentialCount() >= FingerprintService.maxCredentialsPerStudent) {
+        const response: ApiResponse = {
+          success: false,
+          message: `A student can have at most ${FingerprintService.maxCredentialsPerStudent} fingerprints. Revoke one before adding another.`,
+          code: 'FINGERPRINT_CREDENTIAL_LIMIT'
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const claimed = await FingerprintService.consumeRegistration(fingerprintRegistrationId, student._id.toString());
+
+      if (!claimed.verified) {
+        const response: ApiResponse = {
+          success: false,
+          message: claimed.error || 'Fingerprint registration is not valid',
+          code: claimed.code
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      fingerprint = claimed.data;
+    }
+
+    let duplicateCheck: DuplicateFaceCheckResult = { action: 'allow' };
+    let qualityReport: FaceQualityReport | undefined;
+
     // Process face image if provided
     if (faceImage) {
       if (!isModelsLoaded()) {
@@ -294,30 +366,18 @@ export const updateStudentBiometrics = async (req: Request, res: Response): Prom
         return;
       }
 
+      let faceTemplate: FaceTemplateExtraction;
       try {
         const imageBuffer = Buffer.from(faceImage.split(',')[1], 'base64');
+        const detectorOptions = resolveDetectorOptions(detector, 'enrollment');
         const processedImage = await preprocessImage(imageBuffer);
-        const faceDescriptor = await extractFaceDescriptor(processedImage);
-        
-        student.faceDescriptor = Array.from(faceDescriptor);
-        student.faceImage = faceImage;
-
-        // Upload to S3
-        const profileUploadResult = await s3Service.uploadProfileImage(
-          faceImage, 
-          student.studentId,
-          student.name,
-          student._id.toString()
-        );
-
-        if (profileUploadResult.success) {
-          student.profileImageUrl = profileUploadResult.url;
+        faceTemplate = await extractFaceTemplate(processedImage, detectorOptions);
+      } catch (faceError: any) {
+        if (faceError instanceof FaceWorkerQueueFullError) {
+          sendFaceWorkersBusy(res, faceError.retryAfterSeconds);
+          return;
         }
 
-        if (!student.biometricMethods.includes('face')) {
-          student.biometricMethods.push('face');
-        }
-      } catch (faceError: any) {
         console.error('❌ Face processing error:', faceError);
         const response: ApiResponse = {
           success: false,
@@ -327,20 +387,61 @@ export const updateStudentBiometrics = async (req: Request, res: Response): Prom
         res.status(400).json(response);
         return;
       }
-    }
 
-    // Process fingerprint if provided
-    if (fingerprintData) {
-      student.fingerprintCredentialId = fingerprintData.credentialId;
-      student.fingerprintPublicKey = fingerprintData.publicKey;
-      student.fingerprintCounter = fingerprintData.counter || 0;
+      if (rejectLowQualityFace(res, faceTemplate.qualityReport)) {
+        return;
+      }
+
+      qualityReport = faceTemplate.qualityReport;
+
+      duplicateCheck = await DuplicateFaceService.check(
+        faceTemplate.descriptor,
+        student._id.toString(),
+        allowDuplicateFace === true && req.user?.role === 'admin'
+      );
 
-      if (!student.biometricMethods.includes('fingerprint')) {
-        student.biometricMethods.push('fingerprint');
+      if (rejectDuplicateFace(res, duplicateCheck)) {
+        return;
+      }
+
+      DuplicateFaceService.recordFlag(student, duplicateCheck);
+
+      // Re-enrollment adds to the gallery instead of replacing the previous capture
+      const template = student.addFaceTemplate({
+        descriptor: Array.from(faceTemplate.descriptor),
+        quality: faceTemplate.quality,
+        source: 're-enrollment'
+      });
+      student.faceImage = faceImage;
+
+      // Upload to S3
+      const profileUploadResult = await s3Service.uploadProfileImage(
+        faceImage, 
+        student.studentId,
+        student.name,
+        student._id.toString()
+      );
+
+      if (profileUploadResult.success) {
+        student.profileImageUrl = profileUploadResult.url;
+        template.imageUrl = profileUploadResult.url;
       }
     }
 
+    // Add the fingerprint credential claimed above alongside the existing ones
+    if (fingerprint) {
+      student.addFingerprintCredential(fingerprint.registration, fingerprintLabel);
+      student.webauthnUserId = fingerprint.userHandle;
+    }
+
     await student.save();
+    faceIndex.updateStudent(student);
+
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'biometrics'
+    });
 
     const response: ApiResponse = {
       success: true,
@@ -350,7 +451,9 @@ export const updateStudentBiometrics = async (req: Request, res: Response): Prom
         studentId: student.studentId,
         name: student.name,
         profileImageUrl: student.profileImageUrl,
-        biometricMethods: student.biometricMethods
+        biometricMethods: student.biometricMethods,
+        duplicateFaceConflict: duplicateCheck.conflict,
+        qualityReport
       }
     };
 
@@ -369,6 +472,359 @@ export const updateStudentBiometrics = async (req: Request, res: Response): Prom
   }
 };
 
+const toFaceTemplateListItem = (template: IFaceTemplate): FaceTemplateListItem => ({
+  _id: template._id.toString(),
+  quality: template.quality,
+  source: template.source,
+  imageUrl: template.imageUrl,
+  capturedAt: template.capturedAt
+});
+
+export const getFaceTemplates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const student = await Student.findById(id).select('studentId name faceTemplates._id faceTemplates.quality faceTemplates.source faceTemplates.imageUrl faceTemplates.capturedAt');
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const templates = [...student.faceTemplates]
+      .sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime())
+      .map(toFaceTemplateListItem);
+
+    const response: ApiResponse<FaceTemplateListItem[]> = {
+      success: true,
+      message: 'Face templates retrieved successfully',
+      data: templates
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get face templates error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch face templates',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const addFaceTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { faceImage, allowDuplicateFace, detector }: AddFaceTemplateRequest = req.body;
+
+    if (!isModelsLoaded()) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Face recognition models not loaded. Please try again later.'
+      };
+      res.status(503).json(response);
+      return;
+    }
+
+    const student = await Student.findById(id);
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    let faceTemplate: FaceTemplateExtraction;
+    try {
+      const imageBuffer = Buffer.from(faceImage.split(',')[1], 'base64');
+      const detectorOptions = resolveDetectorOptions(detector, 'enrollment');
+      const processedImage = await preprocessImage(imageBuffer);
+      faceTemplate = await extractFaceTemplate(processedImage, detectorOptions);
+    } catch (faceError: any) {
+      if (faceError instanceof FaceWorkerQueueFullError) {
+        sendFaceWorkersBusy(res, faceError.retryAfterSeconds);
+        return;
+      }
+
+      console.error('❌ Face processing error:', faceError);
+      const response: ApiResponse = {
+        success: false,
+        message: 'Face processing failed. Please ensure your face is clearly visible.',
+        error: faceError.message
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (rejectLowQualityFace(res, faceTemplate.qualityReport)) {
+      return;
+    }
+
+    const duplicateCheck = await DuplicateFaceService.check(
+      faceTemplate.descriptor,
+      student._id.toString(),
+      allowDuplicateFace === true && req.user?.role === 'admin'
+    );
+
+    if (rejectDuplicateFace(res, duplicateCheck)) {
+      return;
+    }
+
+    DuplicateFaceService.recordFlag(student, duplicateCheck);
+
+    const template = student.addFaceTemplate({
+      descriptor: Array.from(faceTemplate.descriptor),
+      quality: faceTemplate.quality,
+      source: 're-enrollment'
+    });
+
+    const uploadResult = await s3Service.uploadFaceTemplateImage(
+      faceImage,
+      student.studentId,
+      student.name,
+      student._id.toString()
+    );
+
+    if (uploadResult.success) {
+      template.imageUrl = uploadResult.url;
+    } else {
+      console.log('⚠️ Continuing without template image despite S3 upload failure');
+    }
+
+    await student.save();
+    faceIndex.updateStudent(student);
+
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'biometrics'
+    });
+
+    console.log(`📷 Face template added for ${student.name} (${student.studentId}), gallery size ${student.faceTemplates.length}`);
+
+    const response: ApiResponse<FaceTemplateListItem & { qualityReport: FaceQualityReport }> = {
+      success: true,
+      message: 'Face template added successfully',
+      data: {
+        ...toFaceTemplateListItem(template),
+        qualityReport: faceTemplate.qualityReport
+      }
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Add face template error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to add face template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const deleteFaceTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, templateId } = req.params;
+
+    const student = await Student.findById(id);
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // A student must always keep at least one biometric method
+    const isLastTemplate = student.faceTemplates.length === 1 && student.faceTemplates[0]._id.toString() === templateId;
+    if (isLastTemplate && !student.biometricMethods.includes('fingerprint')) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Cannot remove the only face template of a student without another biometric method'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (!student.removeFaceTemplate(templateId)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Face template not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await student.save();
+    faceIndex.updateStudent(student);
+
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'biometrics'
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Face template removed successfully',
+      data: {
+        remainingTemplates: student.faceTemplates.length,
+        biometricMethods: student.biometricMethods
+      }
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Delete face template error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to remove face template',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+const toFingerprintCredentialListItem = (credential: IFingerprintCredential): FingerprintCredentialListItem => ({
+  _id: credential._id.toString(),
+  credentialId: credential.credentialId,
+  label: credential.label,
+  algorithm: credential.algorithm,
+  counter: credential.counter,
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt,
+  revoked: credential.revoked,
+  revokedAt: credential.revokedAt
+});
+
+export const getFingerprintCredentials = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const student = await Student.findById(id);
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Students enrolled with a single credential get it listed (and revocable) from now on
+    if (student.migrateLegacyFingerprint()) {
+      await student.save();
+    }
+
+    const credentials = [...student.fingerprintCredentials]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toFingerprintCredentialListItem);
+
+    const response: ApiResponse<FingerprintCredentialListItem[]> = {
+      success: true,
+      message: 'Fingerprint credentials retrieved successfully',
+      data: credentials
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get fingerprint credentials error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch fingerprint credentials',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const revokeFingerprintCredential = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, credentialId } = req.params;
+
+    const student = await Student.findById(id);
+
+    if (!student) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const credential = student.revokeFingerprintCredential(credentialId, req.user?.id);
+
+    if (!credential) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Fingerprint credential not found or already revoked'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Unlike removing the last face template, revoking is allowed for a lost
+    // authenticator even when it leaves the student without fingerprint login
+    await student.save();
+
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'biometrics'
+    });
+
+    console.log(`🔒 Fingerprint credential "${credential.label}" revoked for ${student.name} (${student.studentId})`);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Fingerprint credential revoked successfully',
+      data: {
+        credential: toFingerprintCredentialListItem(credential),
+        activeCredentials: student.activeFingerprintCredentialCount(),
+        biometricMethods: student.biometricMethods
+      }
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Revoke fingerprint credential error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to revoke fingerprint credential',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
 export const toggleStudentStatus = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -387,6 +843,14 @@ export const toggleStudentStatus = async (req: Request, res: Response): Promise<
     // Toggle status
     student.isActive = !student.isActive;
     await student.save();
+    // Deactivated students stop matching at the kiosk straight away
+    faceIndex.updateStudent(student);
+
+    eventService.emitStudentUpdated({
+      id: student._id.toString(),
+      studentId: student.studentId,
+      change: 'status'
+    });
 
     const response: ApiResponse = {
       success: true,
@@ -446,6 +910,9 @@ export const getStudentAttendanceCalendar = async (req: Request, res: Response):
       }
     }).sort({ date: 1 });
 
+    const resolveDay = await AcademicCalendarService.loadResolver(start, end);
+    const resolveLeave = await LeaveService.loadResolver(start, end, [student._id.toString()]);
+
     // Create a map of attendance by date
     const attendanceMap = new Map<string, any>();
     attendanceRecords.forEach(record => {
@@ -467,18 +934,24 @@ export const getStudentAttendanceCalendar = async (req: Request, res: Response):
           status: attendance.status,
           timeIn: attendance.timeIn,
           timeOut: attendance.timeOut,
-          duration: attendance.timeOut 
-            ? attendance.timeOut.getTime() - attendance.timeIn.getTime() 
-            : undefined,
+          autoCheckout: attendance.autoCheckout,
+          duration: attendance.timeOut ? attendance.totalDuration() : undefined,
+          intervals: attendance.intervals.length > 0 ? attendance.intervals : undefined,
           location: attendance.location,
           biometricMethod: attendance.biometricMethod,
+          manualReason: attendance.manualReason,
           confidence: attendance.confidence,
           attendanceId: attendance._id.toString()
         });
       } else {
+        // Days off and approved leave are marked as such instead of looking like missed days
+        const day = resolveDay(currentDate, student.course);
+        const leave = day.type === 'working' ? resolveLeave(student._id.toString(), currentDate) : undefined;
         calendarData.push({
           date: dateStr,
-          status: 'none'
+          status: day.type !== 'working' ? day.type : leave ? 'excused' : 'none',
+          holidayName: day.type === 'working' ? undefined : day.name,
+          leaveType: leave?.type
         });
       }
 
@@ -506,6 +979,236 @@ export const getStudentAttendanceCalendar = async (req: Request, res: Response):
   }
 };
 
+// Helper to load the class session a manual entry is recorded against
+const findManualEntrySession = async (
+  sessionId: string | undefined,
+  course: string
+): Promise<{ session: IClassSession | null; error?: string }> => {
+  if (!sessionId) {
+    return { session: null };
+  }
+
+  const session = await ClassSession.findById(sessionId);
+  if (!session || session.course !== course) {
+    return { session: null, error: `Class session not found for ${course}` };
+  }
+
+  return { session };
+};
+
+// Helper to find records already covering a day (or a class on that day)
+// Roll-call absences do not count; a manual entry replaces them
+const findDayAttendance = (studentMongoIds: string[], day: Date, sessionId?: string) => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const nextDay = new Date(start);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  return Attendance.find({
+    student: { $in: studentMongoIds },
+    date: { $gte: start, $lt: nextDay },
+    session: sessionId || null,
+    status: { $ne: 'absent' }
+  });
+};
+
+/**
+ * Enter attendance for a student by hand, e.g. when the kiosk camera is down
+ * The entry records who made it and why, and is flagged with the manual method
+ */
+export const createManualAttendance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { timeIn, timeOut, status, session: sessionId, location, reason, notes }: ManualAttendanceRequest = req.body;
+
+    const student = await Student.findById(id).select('studentId name course isActive');
+
+    if (!student || !student.isActive) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Student not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const { session, error: sessionError } = await findManualEntrySession(sessionId, student.course);
+    if (sessionError) {
+      const response: ApiResponse = {
+        success: false,
+        message: sessionError,
+        code: 'SESSION_NOT_APPLICABLE'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const entryTime = timeIn ? new Date(timeIn) : new Date();
+
+    const existing = await findDayAttendance([student._id.toString()], entryTime, session?._id.toString());
+    if (existing.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Attendance is already recorded for ${student.name} ${session ? `in ${session.subject}` : 'on this day'}`,
+        code: 'ATTENDANCE_EXISTS',
+        data: { attendanceId: existing[0]._id.toString() }
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const attendance = new Attendance({
+      student: student._id.toString(),
+      studentId: student.studentId,
+      date: new Date(entryTime),
+      timeIn: entryTime,
+      timeOut: timeOut ? new Date(timeOut) : undefined,
+      status: status || 'present',
+      biometricMethod: 'manual',
+      enteredBy: req.user?.id,
+      manualReason: reason,
+      session: session?._id.toString(),
+      subject: session?.subject,
+      location,
+      notes
+    });
+
+    await attendance.save();
+    await rollCall.clearAbsences(attendance.student, attendance.date, attendance.date, 'present');
+
+    console.log(`✍️ Manual attendance for ${student.name} (${student.studentId}) entered by ${req.user?.email}: ${reason}`);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Attendance entered successfully',
+      data: attendance
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Manual attendance error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to enter attendance',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Enter attendance by hand for a course roster (or the listed students of it)
+ * Students who already have a record for the day or class are skipped
+ */
+export const createBulkManualAttendance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      course,
+      students: studentMongoIds,
+      timeIn,
+      status,
+      session: sessionId,
+      location,
+      reason,
+      notes
+    }: BulkManualAttendanceRequest = req.body;
+
+    const { session, error: sessionError } = await findManualEntrySession(sessionId, course);
+    if (sessionError) {
+      const response: ApiResponse = {
+        success: false,
+        message: sessionError,
+        code: 'SESSION_NOT_APPLICABLE'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const rosterQuery: any = { course, isActive: true };
+    if (studentMongoIds) {
+      rosterQuery._id = { $in: studentMongoIds };
+    }
+    const roster = await Student.find(rosterQuery).select('studentId name');
+
+    const result: BulkManualAttendanceResult = { created: 0, skipped: [] };
+
+    if (studentMongoIds) {
+      const rosterIds = new Set(roster.map(student => student._id.toString()));
+      studentMongoIds
+        .filter(studentMongoId => !rosterIds.has(studentMongoId))
+        .forEach(studentMongoId => result.skipped.push({
+          _id: studentMongoId,
+          studentId: '',
+          name: '',
+          reason: `Not an active ${course} student`
+        }));
+    }
+
+    const entryTime = timeIn ? new Date(timeIn) : new Date();
+    const existing = await findDayAttendance(
+      roster.map(student => student._id.toString()),
+      entryTime,
+      session?._id.toString()
+    );
+    const alreadyRecorded = new Set(existing.map(record => record.student.toString()));
+
+    for (const student of roster) {
+      if (alreadyRecorded.has(student._id.toString())) {
+        result.skipped.push({
+          _id: student._id.toString(),
+          studentId: student.studentId,
+          name: student.name,
+          reason: 'Attendance already recorded'
+        });
+        continue;
+      }
+
+      const attendance = new Attendance({
+        student: student._id.toString(),
+        studentId: student.studentId,
+        date: new Date(entryTime),
+        timeIn: entryTime,
+        status: status || 'present',
+        biometricMethod: 'manual',
+        enteredBy: req.user?.id,
+        manualReason: reason,
+        session: session?._id.toString(),
+        subject: session?.subject,
+        location,
+        notes
+      });
+
+      await attendance.save();
+      await rollCall.clearAbsences(attendance.student, attendance.date, attendance.date, 'present');
+      result.created++;
+    }
+
+    console.log(`✍️ Manual attendance for ${result.created} ${course} students entered by ${req.user?.email}: ${reason}`);
+
+    const response: ApiResponse<BulkManualAttendanceResult> = {
+      success: true,
+      message: `Attendance entered for ${result.created} students${result.skipped.length ? `, ${result.skipped.length} skipped` : ''}`,
+      data: result
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Bulk manual attendance error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to enter attendance',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
 export const updateAttendanceRecord = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -522,14 +1225,55 @@ export const updateAttendanceRecord = async (req: Request, res: Response): Promi
       return;
     }
 
+    const wasAbsent = attendance.status === 'absent';
+
     // Update fields if provided
     if (updateData.status) attendance.status = updateData.status;
-    if (updateData.timeIn) attendance.timeIn = new Date(updateData.timeIn);
-    if (updateData.timeOut) attendance.timeOut = new Date(updateData.timeOut);
+    // timeIn/timeOut are the first check-in and last check-out; keep the intervals in step
+    attendance.ensureIntervals();
+    // Absent roll-call records have no intervals until a time in is given
+    if (updateData.timeIn) {
+      attendance.timeIn = new Date(updateData.timeIn);
+      if (attendance.intervals.length > 0) attendance.intervals[0].timeIn = attendance.timeIn;
+    }
+    if (updateData.timeOut) {
+      const lastInterval = attendance.intervals[attendance.intervals.length - 1];
+      attendance.timeOut = new Date(updateData.timeOut);
+      attendance.autoCheckout = false;
+      if (lastInterval) {
+        lastInterval.timeOut = attendance.timeOut;
+        lastInterval.autoCheckout = false;
+      }
+    }
+    if (attendance.status !== 'absent' && !attendance.timeIn) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Time in is required to mark an absent record as attended'
+      };
+      res.status(400).json(response);
+      return;
+    }
+    // Attendance for a day closed at roll call is entered by hand, so it needs the same audit trail
+    if (wasAbsent && attendance.status !== 'absent') {
+      if (!updateData.reason) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'A reason is required to mark an absent record as attended'
+        };
+        res.status(400).json(response);
+        return;
+      }
+      attendance.biometricMethod = 'manual';
+      attendance.enteredBy = req.user?.id;
+      attendance.manualReason = updateData.reason;
+    }
     if (updateData.location) attendance.location = updateData.location;
     if (updateData.notes !== undefined) attendance.notes = updateData.notes;
 
     await attendance.save();
+    if (wasAbsent && attendance.status !== 'absent') {
+      await rollCall.moveAbsentees([attendance.date], 'present');
+    }
 
     const response: ApiResponse = {
       success: true,
@@ -598,6 +1342,11 @@ const calculateAttendanceStats = async (studentId: string): Promise<AttendanceSt
       totalDays: 0,
       presentDays: 0,
       absentDays: 0,
+      excusedDays: 0,
+      lateDays: 0,
+      halfDays: 0,
+      earlyLeaveDays: 0,
+      manualDays: 0,
       attendancePercentage: 0
     };
   }
@@ -608,22 +1357,55 @@ const calculateAttendanceStats = async (studentId: string): Promise<AttendanceSt
   const today = new Date();
   today.setHours(23, 59, 59, 999);
 
-  // Calculate total days since enrollment (excluding weekends if needed)
-  const totalDays = Math.floor((today.getTime() - enrolledDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-  // Get present days count
-  const presentDays = await Attendance.countDocuments({
-    student: studentId,
-    status: 'present'
+  // Only working days of the student's course count towards attendance
+  const days = await AcademicCalendarService.describeRange(enrolledDate, today, student.course);
+  const workingDays = new Set(days.filter(day => day.type === 'working').map(day => day.date));
+
+  const records = await Attendance.find({ student: studentId }).select('date status biometricMethod');
+
+  // Days closed at roll call stay counted even if the course or calendar has changed since
+  const rollCallAbsences = new Set(
+    records.filter(record => record.status === 'absent').map(record => AcademicCalendarService.dayKey(record.date))
+  );
+  const schoolDays = new Set([...Array.from(workingDays), ...Array.from(rollCallAbsences)]);
+  const totalDays = schoolDays.size;
+
+  // Statuses seen on each attended school day (one record per class period)
+  const statusesByDay = new Map<string, Set<string>>();
+  const manualDays = new Set<string>();
+  records.forEach(record => {
+    const key = AcademicCalendarService.dayKey(record.date);
+    if (!schoolDays.has(key) || !ATTENDED_STATUSES.includes(record.status)) return;
+    const statuses = statusesByDay.get(key) || new Set<string>();
+    statuses.add(record.status);
+    statusesByDay.set(key, statuses);
+    if (record.biometricMethod === 'manual') manualDays.add(key);
   });
 
-  const absentDays = totalDays - presentDays;
-  const attendancePercentage = totalDays > 0 ? (presentDays / totalDays) * 100 : 0;
+  const countDays = (status: string) =>
+    Array.from(statusesByDay.values()).filter(statuses => statuses.has(status)).length;
+
+  // Missed working days covered by approved leave are excused rather than absent
+  const resolveLeave = await LeaveService.loadResolver(enrolledDate, today, [studentId]);
+  const excusedDays = Array.from(schoolDays)
+    .filter(key => !statusesByDay.has(key) && !rollCallAbsences.has(key) && resolveLeave(studentId, new Date(`${key}T00:00:00`)))
+    .length;
+
+  const presentDays = statusesByDay.size;
+  const halfDays = countDays('half-day');
+  const absentDays = totalDays - presentDays - excusedDays;
+  const countedDays = totalDays - excusedDays;
+  const attendancePercentage = countedDays > 0 ? ((presentDays - halfDays / 2) / countedDays) * 100 : 0;
 
   return {
     totalDays,
     presentDays,
     absentDays: Math.max(0, absentDays),
+    excusedDays,
+    lateDays: countDays('late'),
+    halfDays,
+    earlyLeaveDays: countDays('early-leave'),
+    manualDays: manualDays.size,
     attendancePercentage: Math.round(attendancePercentage * 100) / 100
   };
 };
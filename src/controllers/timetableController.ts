@@ -0,0 +1,291 @@
+import { Request, Response } from 'express';
+import ClassSession from '../models/ClassSession';
+import Student from '../models/Student';
+import User from '../models/User';
+import { TimetableService } from '../services/timetableService';
+import { ApiResponse, ClassSessionRequest, SubjectAttendanceReport } from '../types';
+
+/**
+ * List timetable sessions, optionally filtered by course, weekday or teacher
+ */
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { course, weekday, teacher, includeInactive } = req.query;
+
+    const query: any = {};
+    if (course) query.course = course;
+    if (weekday !== undefined) query.weekday = parseInt(weekday as string);
+    if (teacher) query.teacher = teacher;
+    if (includeInactive !== 'true') query.isActive = true;
+
+    const sessions = await ClassSession.find(query)
+      .populate('teacher', 'name email')
+      .sort({ course: 1, weekday: 1, startTime: 1 });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Timetable retrieved successfully',
+      data: sessions
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Get timetable error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch timetable',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Add a weekly class period to a course timetable
+ */
+export const createSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { course, subject, teacher, weekday, startTime, endTime, room }: ClassSessionRequest = req.body;
+
+    if (teacher && !(await User.exists({ _id: teacher, role: 'teacher', isActive: true }))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Teacher not found'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const overlapping = await TimetableService.findOverlappingSession({ course, weekday, startTime, endTime });
+
+    if (overlapping) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Overlaps with ${overlapping.subject} (${overlapping.startTime}-${overlapping.endTime})`,
+        code: 'SESSION_OVERLAP',
+        data: { conflictingSession: TimetableService.summarize(overlapping) }
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const session = new ClassSession({
+      course,
+      subject,
+      teacher,
+      weekday,
+      startTime,
+      endTime,
+      room,
+      createdBy: req.user?.id
+    });
+
+    await session.save();
+
+    console.log(`🗓️ Class session added: ${course} ${subject} on day ${weekday} ${startTime}-${endTime}`);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Class session created successfully',
+      data: session
+    };
+
+    res.status(201).json(response);
+
+  } catch (error: any) {
+    console.error('❌ Create class session error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to create class session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const updateSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updateData: Partial<ClassSessionRequest> = req.body;
+
+    const session = await ClassSession.findById(id);
+
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Class session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (updateData.teacher && !(await User.exists({ _id: updateData.teacher, role: 'teacher', isActive: true }))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Teacher not found'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (updateData.course) session.course = updateData.course;
+    if (updateData.subject) session.subject = updateData.subject;
+    if (updateData.teacher !== undefined) session.teacher = updateData.teacher || undefined;
+    if (updateData.weekday !== undefined) session.weekday = updateData.weekday;
+    if (updateData.startTime) session.startTime = updateData.startTime;
+    if (updateData.endTime) session.endTime = updateData.endTime;
+    if (updateData.room !== undefined) session.room = updateData.room;
+
+    const overlapping = await TimetableService.findOverlappingSession({
+      course: session.course,
+      weekday: session.weekday,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      excludeId: session._id.toString()
+    });
+
+    if (overlapping) {
+      const response: ApiResponse = {
+        success: false,
+        message: `Overlaps with ${overlapping.subject} (${overlapping.startTime}-${overlapping.endTime})`,
+        code: 'SESSION_OVERLAP',
+        data: { conflictingSession: TimetableService.summarize(overlapping) }
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await session.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Class session updated successfully',
+      data: session
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Update class session error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update class session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Remove a class period from the timetable
+ * Sessions are deactivated rather than deleted so past attendance keeps its subject
+ */
+export const deleteSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const session = await ClassSession.findById(id);
+
+    if (!session || !session.isActive) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Class session not found'
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    session.isActive = false;
+    await session.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Class session removed from the timetable'
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Delete class session error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to remove class session',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Attendance per subject for a course, or a single student when `student` is given
+ * Defaults to the last 30 days
+ */
+export const getSubjectAttendanceReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { course, student: studentMongoId, startDate, endDate } = req.query;
+
+    let reportCourse = course as string | undefined;
+
+    if (studentMongoId) {
+      const student = await Student.findById(studentMongoId).select('course');
+
+      if (!student) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Student not found'
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      reportCourse = student.course;
+    }
+
+    if (!reportCourse) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Either course or student is required'
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const end = endDate ? new Date(endDate as string) : new Date();
+    const start = startDate ? new Date(startDate as string) : new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+
+    const report = await TimetableService.getSubjectReport({
+      course: reportCourse,
+      studentMongoId: studentMongoId as string | undefined,
+      startDate: start,
+      endDate: end
+    });
+
+    const response: ApiResponse<SubjectAttendanceReport> = {
+      success: true,
+      message: 'Subject attendance report generated successfully',
+      data: report
+    };
+
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('❌ Subject attendance report error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to generate subject attendance report',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+
+    res.status(500).json(response);
+  }
+};
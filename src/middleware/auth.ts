@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import User from '../models/User';
+import { AuthService } from '../services/authService';
+import { ApiResponse, UserRole } from '../types';
+
+/**
+ * Authenticate the request using a Bearer access token
+ * Attaches the authenticated user to req.user
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.get('Authorization');
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Authentication required'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  try {
+    const token = authHeader.substring('Bearer '.length).trim();
+    const payload = AuthService.verifyAccessToken(token);
+
+    const user = await User.findById(payload.sub);
+
+    // Tokens of deactivated users or issued before a logout/password change are rejected
+    if (!user || !user.isActive || user.tokenVersion !== payload.tokenVersion) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid or expired token'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    req.user = AuthService.toAuthenticatedUser(user);
+    next();
+  } catch (error: any) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid or expired token',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+    res.status(401).json(response);
+  }
+};
+
+/**
+ * Restrict a route to the given roles
+ * Must be used after authenticate
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Authentication required'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'You do not have permission to perform this action'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import Device from '../models/Device';
+import { DeviceService } from '../services/deviceService';
+import { ApiResponse } from '../types';
+
+/**
+ * Authenticate a kiosk device by its signed request headers
+ * Attaches the authenticated device to req.device
+ */
+export const authenticateDevice = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const deviceId = req.get('X-Device-Id');
+  const timestamp = req.get('X-Device-Timestamp');
+  const nonce = req.get('X-Device-Nonce');
+  const signature = req.get('X-Device-Signature');
+
+  if (!deviceId || !timestamp || !nonce || !signature) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Device authentication required'
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  try {
+    if (!DeviceService.isTimestampFresh(timestamp)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Device request timestamp is outside the allowed window'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const device = await Device.findById(deviceId).select('+secretKey');
+
+    if (!device || !DeviceService.verifySignature(device.secretKey, signature, timestamp, nonce, req.method, req.originalUrl, req.rawBody)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid device credentials'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    // Checked only after the signature, so nobody else can burn a device's nonces
+    if (!(await DeviceService.consumeNonce(deviceId, nonce, timestamp))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Device request has already been used'
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    if (!device.isEnabled) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'This device has been disabled. Please contact an administrator.'
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    req.device = {
+      id: device._id.toString(),
+      name: device.name,
+      location: device.location
+    };
+
+    // Track device activity without delaying the request
+    const clientIP = (req.ip || req.connection.remoteAddress || '').replace(/^::ffff:/, '');
+    Device.updateOne({ _id: device._id }, { lastSeenAt: new Date(), lastSeenIp: clientIP })
+      .catch(error => console.error('❌ Failed to update device activity:', error));
+
+    next();
+  } catch (error: any) {
+    console.error('❌ Device authentication error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid device credentials',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+    res.status(401).json(response);
+  }
+};
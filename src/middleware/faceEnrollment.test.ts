@@ -0,0 +1,87 @@
+import { Response } from 'express';
+import { rejectDuplicateFace, rejectLowQualityFace } from './faceEnrollment';
+import { FaceQualityReport } from '../types';
+
+// The face pipeline needs native image libraries; only the gate switch is used here
+jest.mock('./faceRecognition', () => ({
+  isFaceQualityGateEnabled: () => process.env.FACE_QUALITY_ENFORCE !== 'false'
+}));
+
+const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response & { status: jest.Mock; json: jest.Mock };
+};
+
+const report = (passed: boolean): FaceQualityReport => ({
+  passed,
+  score: passed ? 0.9 : 0.4,
+  checks: [],
+  reasons: passed ? [] : ['Image is blurry. Please hold still and try again.'],
+  measurements: {}
+});
+
+describe('face enrollment gates', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.FACE_QUALITY_ENFORCE;
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  describe('rejectLowQualityFace', () => {
+    it('answers 422 with the failed checks', () => {
+      const res = mockResponse();
+
+      expect(rejectLowQualityFace(res, report(false))).toBe(true);
+      expect(res.status).toHaveBeenCalledWith(422);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'FACE_QUALITY_TOO_LOW',
+        message: 'Face image quality too low: Image is blurry. Please hold still and try again.'
+      }));
+    });
+
+    it('lets good captures through', () => {
+      const res = mockResponse();
+
+      expect(rejectLowQualityFace(res, report(true))).toBe(false);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('lets poor captures through when the gate is switched off', () => {
+      process.env.FACE_QUALITY_ENFORCE = 'false';
+      const res = mockResponse();
+
+      expect(rejectLowQualityFace(res, report(false))).toBe(false);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectDuplicateFace', () => {
+    const conflict = { _id: 'existing', studentId: 'MCA001', name: 'Asha Rao', isActive: true, distance: 0.3 };
+
+    it('answers 409 naming the conflicting student', () => {
+      const res = mockResponse();
+
+      expect(rejectDuplicateFace(res, { action: 'reject', conflict })).toBe(true);
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'DUPLICATE_FACE',
+        data: { conflictingStudent: conflict }
+      }));
+    });
+
+    it('lets allowed and flagged enrollments through', () => {
+      const res = mockResponse();
+
+      expect(rejectDuplicateFace(res, { action: 'allow' })).toBe(false);
+      expect(rejectDuplicateFace(res, { action: 'flag', conflict })).toBe(false);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+});
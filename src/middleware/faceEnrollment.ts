@@ -0,0 +1,41 @@
+import { Response } from 'express';
+import { isFaceQualityGateEnabled } from './faceRecognition';
+import { ApiResponse, DuplicateFaceCheckResult, FaceQualityReport } from '../types';
+
+/**
+ * Answer 422 when a capture fails the quality gate, as low quality captures
+ * make poor permanent templates. Returns true when the response was sent
+ */
+export const rejectLowQualityFace = (res: Response, qualityReport: FaceQualityReport): boolean => {
+  if (qualityReport.passed || !isFaceQualityGateEnabled()) {
+    return false;
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: `Face image quality too low: ${qualityReport.reasons.join(' ')}`,
+    code: 'FACE_QUALITY_TOO_LOW',
+    data: { qualityReport }
+  };
+  res.status(422).json(response);
+  return true;
+};
+
+/**
+ * Answer 409 when an enrollment capture already belongs to another student
+ * Returns true when the response was sent
+ */
+export const rejectDuplicateFace = (res: Response, duplicateCheck: DuplicateFaceCheckResult): boolean => {
+  if (duplicateCheck.action !== 'reject' || !duplicateCheck.conflict) {
+    return false;
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: `This face is already enrolled as ${duplicateCheck.conflict.name} (${duplicateCheck.conflict.studentId})`,
+    code: 'DUPLICATE_FACE',
+    data: { conflictingStudent: duplicateCheck.conflict }
+  };
+  res.status(409).json(response);
+  return true;
+};
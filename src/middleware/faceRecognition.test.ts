@@ -0,0 +1,102 @@
+import { assessFaceQuality } from './faceRecognition';
+import { FaceDetectionResult } from '../types';
+
+// Grey level mean and Laplacian deviation reported for the face crop
+const mockMeasured = { brightness: 120, laplacianStdev: 12 };
+
+jest.mock('canvas', () => ({ Canvas: class {}, Image: class {}, ImageData: class {} }));
+jest.mock('sharp', () => jest.fn(() => {
+  let convolved = false;
+  const pipeline: any = {
+    resize: () => pipeline,
+    jpeg: () => pipeline,
+    extract: () => pipeline,
+    greyscale: () => pipeline,
+    convolve: () => {
+      convolved = true;
+      return pipeline;
+    },
+    toBuffer: async () => Buffer.alloc(0),
+    metadata: async () => ({ width: 640, height: 480 }),
+    stats: async () => ({
+      channels: [convolved ? { mean: 128, stdev: mockMeasured.laplacianStdev } : { mean: mockMeasured.brightness, stdev: 40 }]
+    })
+  };
+  return pipeline;
+}));
+
+const face = ({ size = 160, score = 0.95, noseX = 50, rightEyeY = 40 } = {}): FaceDetectionResult => {
+  const positions = Array.from({ length: 68 }, () => ({ x: 50, y: 60 }));
+  positions[0] = { x: 0, y: 50 };
+  positions[16] = { x: 100, y: 50 };
+  positions[30] = { x: noseX, y: 55 };
+  for (let i = 36; i < 42; i++) positions[i] = { x: 30, y: 40 };
+  for (let i = 42; i < 48; i++) positions[i] = { x: 70, y: rightEyeY };
+
+  return {
+    detection: { score, box: { x: 200, y: 120, width: size, height: size } },
+    landmarks: { positions },
+    descriptor: new Float32Array(128),
+    expressions: {}
+  };
+};
+
+const failedChecks = (report: { checks: { name: string; passed: boolean }[] }) =>
+  report.checks.filter(check => !check.passed).map(check => check.name);
+
+describe('assessFaceQuality', () => {
+  beforeEach(() => {
+    mockMeasured.brightness = 120;
+    mockMeasured.laplacianStdev = 12;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes a large, frontal, well lit and sharp face', async () => {
+    const report = await assessFaceQuality(Buffer.alloc(0), [face()]);
+
+    expect(report.passed).toBe(true);
+    expect(report.reasons).toEqual([]);
+    expect(report.measurements).toMatchObject({ faceWidth: 160, yaw: 0, roll: 0, brightness: 120, sharpness: 144 });
+  });
+
+  it('requires exactly one face', async () => {
+    expect(await assessFaceQuality(Buffer.alloc(0), [])).toMatchObject({ passed: false, score: 0, reasons: ['No face detected'] });
+    expect(await assessFaceQuality(Buffer.alloc(0), [face(), face()])).toMatchObject({
+      passed: false,
+      reasons: ['Multiple faces detected']
+    });
+  });
+
+  it('rejects a small or low confidence face', async () => {
+    const report = await assessFaceQuality(Buffer.alloc(0), [face({ size: 80, score: 0.5 })]);
+
+    expect(failedChecks(report)).toEqual(['faceSize', 'detectionScore']);
+  });
+
+  it('rejects a turned or tilted head', async () => {
+    expect(failedChecks(await assessFaceQuality(Buffer.alloc(0), [face({ noseX: 75 })]))).toEqual(['pose']);
+    expect(failedChecks(await assessFaceQuality(Buffer.alloc(0), [face({ rightEyeY: 55 })]))).toEqual(['pose']);
+  });
+
+  it('rejects a dark capture', async () => {
+    mockMeasured.brightness = 35;
+
+    const report = await assessFaceQuality(Buffer.alloc(0), [face()]);
+
+    expect(failedChecks(report)).toEqual(['brightness']);
+    expect(report.reasons).toEqual(['Image too dark. Please improve the lighting.']);
+  });
+
+  it('rejects a blurry capture', async () => {
+    mockMeasured.laplacianStdev = 5;
+
+    const report = await assessFaceQuality(Buffer.alloc(0), [face()]);
+
+    expect(failedChecks(report)).toEqual(['sharpness']);
+    expect(report.measurements.sharpness).toBe(25);
+  });
+});
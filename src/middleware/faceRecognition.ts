@@ -2,7 +2,18 @@ import * as faceapi from 'face-api.js';
 import { Canvas, Image, ImageData } from 'canvas';
 import path from 'path';
 import sharp from 'sharp';
-import { FaceDetectionResult } from '../types';
+import {
+  FaceDetectionResult,
+  FaceDetectorOptions,
+  FaceDetectorPurpose,
+  FaceDetectorType,
+  FaceQualityCheck,
+  FaceQualityReport,
+  FaceTemplateExtraction,
+  PreprocessedImage
+} from '../types';
+import { Point, rollAngle, yawRatio } from '../utils/faceGeometry';
+import { faceWorkerPool, FaceWorkerQueueFullError } from '../services/faceWorkerPool';
 
 // Configure face-api.js to use Node.js canvas
 faceapi.env.monkeyPatch({ Canvas, Image, ImageData });
@@ -10,13 +21,17 @@ faceapi.env.monkeyPatch({ Canvas, Image, ImageData });
 let modelsLoaded = false;
 const modelsPath = path.join(__dirname, '../../models');
 
-export const initializeFaceAPI = async (): Promise<void> => {
+/**
+ * Load the face-api.js models into the current thread
+ */
+export const loadFaceModels = async (): Promise<void> => {
   try {
     console.log('🚀 Initializing face-api.js...');
 
     // Load all required models
     await Promise.all([
       faceapi.nets.tinyFaceDetector.loadFromDisk(modelsPath),
+      faceapi.nets.ssdMobilenetv1.loadFromDisk(modelsPath),
       faceapi.nets.faceLandmark68Net.loadFromDisk(modelsPath),
       faceapi.nets.faceRecognitionNet.loadFromDisk(modelsPath),
       faceapi.nets.faceExpressionNet.loadFromDisk(modelsPath),
@@ -32,53 +47,121 @@ export const initializeFaceAPI = async (): Promise<void> => {
   }
 };
 
-export const detectFaces = async (imageBuffer: Buffer): Promise<FaceDetectionResult[]> => {
+/**
+ * Start the face worker pool, or load the models inline when the pool is disabled
+ */
+export const initializeFaceAPI = async (): Promise<void> => {
+  if (!faceWorkerPool.isEnabled()) {
+    await loadFaceModels();
+    return;
+  }
+
+  try {
+    await faceWorkerPool.start();
+    modelsLoaded = true;
+  } catch (error) {
+    console.error('❌ Error starting face worker pool:', error);
+    await faceWorkerPool.stop();
+    throw new Error('Failed to load face recognition models');
+  }
+};
+
+const parseDetectorType = (value: string | undefined): FaceDetectorType | undefined => {
+  return value === 'tiny' || value === 'ssd' ? value : undefined;
+};
+
+/**
+ * Resolve detector settings for a request
+ * Per-request overrides win over the deployment defaults; enrollment can use its own
+ * detector (e.g. accurate SSD at the enrollment desk, fast tiny detector at the kiosk)
+ */
+export const resolveDetectorOptions = (
+  overrides: FaceDetectorOptions = {},
+  purpose: FaceDetectorPurpose = 'recognition'
+): Required<FaceDetectorOptions> => {
+  const deploymentDefault = parseDetectorType(process.env.FACE_DETECTOR) || 'tiny';
+  const purposeDefault = purpose === 'enrollment'
+    ? parseDetectorType(process.env.FACE_ENROLLMENT_DETECTOR)
+    : undefined;
+
+  const type = overrides.type || purposeDefault || deploymentDefault;
+  const defaultScoreThreshold = type === 'ssd'
+    ? process.env.FACE_SSD_MIN_CONFIDENCE || '0.5'
+    : process.env.FACE_TINY_SCORE_THRESHOLD || '0.5';
+
+  return {
+    type,
+    inputSize: overrides.inputSize ?? parseInt(process.env.FACE_TINY_INPUT_SIZE || '416'),
+    scoreThreshold: overrides.scoreThreshold ?? parseFloat(defaultScoreThreshold)
+  };
+};
+
+const createDetectorOptions = (options: Required<FaceDetectorOptions>) => {
+  return options.type === 'ssd'
+    ? new faceapi.SsdMobilenetv1Options({ minConfidence: options.scoreThreshold })
+    : new faceapi.TinyFaceDetectorOptions({ inputSize: options.inputSize, scoreThreshold: options.scoreThreshold });
+};
+
+/**
+ * Resize and re-encode an image to the frame face detection runs on
+ * Detection coordinates (boxes, landmarks) refer to this image
+ */
+const prepareDetectionImage = (imageBuffer: Buffer): Promise<Buffer> => {
+  return sharp(imageBuffer)
+    .resize(640, 480, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+};
+
+/**
+ * Detect faces with landmarks and descriptors
+ * Runs on the worker pool when it is started, otherwise on the calling thread
+ */
+export const detectFaces = async (
+  imageBuffer: Buffer,
+  detector?: FaceDetectorOptions
+): Promise<FaceDetectionResult[]> => {
+  if (!modelsLoaded) {
+    throw new Error('Face recognition models not loaded');
+  }
+
+  if (!faceWorkerPool.isStarted()) {
+    return detectFacesInProcess(imageBuffer, detector);
+  }
+
+  try {
+    return await faceWorkerPool.detect(imageBuffer, resolveDetectorOptions(detector));
+  } catch (error: any) {
+    if (error instanceof FaceWorkerQueueFullError) {
+      throw error;
+    }
+    console.error('❌ Face detection error:', error);
+    throw new Error(`Face detection failed: ${error.message || 'Unknown error'}`);
+  }
+};
+
+/**
+ * Run face detection on the current thread (inline mode and inside face workers)
+ */
+export const detectFacesInProcess = async (
+  imageBuffer: Buffer,
+  detector?: FaceDetectorOptions
+): Promise<FaceDetectionResult[]> => {
   if (!modelsLoaded) {
     throw new Error('Face recognition models not loaded');
   }
 
   try {
-    console.log(`🔍 Starting face detection with buffer size: ${imageBuffer.length} bytes`);
+    const detectorOptions = resolveDetectorOptions(detector);
+    console.log(`🔍 Starting face detection (${detectorOptions.type}) with buffer size: ${imageBuffer.length} bytes`);
     
     // Use sharp to process the image and create a proper format
-    const processedBuffer = await sharp(imageBuffer)
-      .resize(640, 480, { fit: 'inside', withoutEnlargement: true })
-      .jpeg({ quality: 90 })
-      .toBuffer();
-    
-    // Create a simple HTMLImageElement and load it properly
-    const img = new Image();
-    
-    const base64 = processedBuffer.toString('base64');
-    const dataUrl = `data:image/jpeg;base64,${base64}`;
-    
-    // Load image with proper error handling
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Image loading timeout'));
-      }, 5000);
-      
-      img.onload = () => {
-        clearTimeout(timeout);
-        console.log(`📸 Image loaded: ${img.width}x${img.height}`);
-        resolve();
-      };
-      
-      img.onerror = (err) => {
-        clearTimeout(timeout);
-        console.error('❌ Image load error:', err);
-        reject(new Error('Failed to load image'));
-      };
-      
-      img.src = dataUrl;
-    });
-
-    // Wait a bit more to ensure image is fully loaded
-    await new Promise(resolve => setTimeout(resolve, 100));
+    const processedBuffer = await prepareDetectionImage(imageBuffer);
+    const img = await loadImage(processedBuffer);
 
     // Detect faces with all features
     const detections = await faceapi
-      .detectAllFaces(img, new faceapi.TinyFaceDetectorOptions())
+      .detectAllFaces(img, createDetectorOptions(detectorOptions))
       .withFaceLandmarks()
       .withFaceDescriptors()
       .withFaceExpressions()
@@ -112,6 +195,18 @@ export const detectFaces = async (imageBuffer: Buffer): Promise<FaceDetectionRes
       } : null
     }));
 
+    // A single face is described again from a crop with its eyes level, in the
+    // same task, so alignment costs no extra detection
+    const options = preprocessOptions();
+    if (options.align && results.length === 1 && results[0].landmarks) {
+      try {
+        results[0].descriptor = await computeAlignedDescriptor(processedBuffer, results[0], options);
+      } catch (error) {
+        // Alignment is best effort, the unaligned descriptor is still usable
+        console.warn('⚠️ Face alignment failed, using unaligned descriptor:', error);
+      }
+    }
+
     return results;
 
   } catch (error: any) {
@@ -120,18 +215,66 @@ export const detectFaces = async (imageBuffer: Buffer): Promise<FaceDetectionRes
   }
 };
 
-export const extractFaceDescriptor = async (imageBuffer: Buffer): Promise<Float32Array> => {
-  try {
-    const detections = await detectFaces(imageBuffer);
+/**
+ * Load an encoded image into a canvas Image for face-api.js
+ */
+const loadImage = async (imageBuffer: Buffer): Promise<Image> => {
+  const img = new Image();
+  const dataUrl = `data:image/jpeg;base64,${imageBuffer.toString('base64')}`;
+
+  // Load image with proper error handling
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error('Image loading timeout'));
+    }, 5000);
+
+    img.onload = () => {
+      clearTimeout(timeout);
+      console.log(`📸 Image loaded: ${img.width}x${img.height}`);
+      resolve();
+    };
 
-    if (detections.length === 0) {
-      throw new Error('No face detected in image');
-    }
+    img.onerror = (err) => {
+      clearTimeout(timeout);
+      console.error('❌ Image load error:', err);
+      reject(new Error('Failed to load image'));
+    };
 
-    if (detections.length > 1) {
-      throw new Error('Multiple faces detected. Please ensure only one face is visible');
-    }
+    img.src = dataUrl;
+  });
+
+  // Wait a bit more to ensure image is fully loaded
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  return img;
+};
+
+/**
+ * Detect exactly one face, throwing a user-facing error otherwise
+ */
+const detectSingleFace = async (
+  imageBuffer: Buffer,
+  detector?: FaceDetectorOptions
+): Promise<FaceDetectionResult[]> => {
+  const detections = await detectFaces(imageBuffer, detector);
+
+  if (detections.length === 0) {
+    throw new Error('No face detected in image');
+  }
+
+  if (detections.length > 1) {
+    throw new Error('Multiple faces detected. Please ensure only one face is visible');
+  }
+
+  return detections;
+};
 
+export const extractFaceDescriptor = async (
+  preprocessed: PreprocessedImage,
+  detector?: FaceDetectorOptions
+): Promise<Float32Array> => {
+  try {
+    const detections = await detectSingleFace(preprocessed.image, detector);
     return detections[0].descriptor;
   } catch (error) {
     console.error('❌ Face descriptor extraction error:', error);
@@ -139,6 +282,31 @@ export const extractFaceDescriptor = async (imageBuffer: Buffer): Promise<Float3
   }
 };
 
+/**
+ * Extract a face descriptor together with its capture quality report
+ * Used when storing a new template in a student's gallery
+ * Quality is measured on the original frame, as normalisation would hide dark
+ * or blurry captures
+ */
+export const extractFaceTemplate = async (
+  preprocessed: PreprocessedImage,
+  detector?: FaceDetectorOptions
+): Promise<FaceTemplateExtraction> => {
+  try {
+    const detections = await detectSingleFace(preprocessed.image, detector);
+    const qualityReport = await assessFaceQuality(preprocessed.original, detections);
+
+    return {
+      descriptor: detections[0].descriptor,
+      quality: qualityReport.score,
+      qualityReport
+    };
+  } catch (error) {
+    console.error('❌ Face descriptor extraction error:', error);
+    throw error;
+  }
+};
+
 export const compareFaces = (
   descriptor1: Float32Array,
   descriptor2: Float32Array,
@@ -167,7 +335,13 @@ export const compareFaces = (
 
 export const findBestMatch = async (
   probeDescriptor: Float32Array,
-  studentDescriptors: Array<{ _id: string; studentId: string; name: string; faceDescriptor: number[] }>,
+  studentDescriptors: Array<{
+    _id: string;
+    studentId: string;
+    name: string;
+    faceDescriptor?: number[];
+    faceTemplates?: Array<{ _id?: any; descriptor: number[] }>;
+  }>,
   threshold: number = 0.6
 ): Promise<{
   studentId: string;
@@ -175,6 +349,7 @@ export const findBestMatch = async (
   name: string;
   confidence: number;
   distance: number;
+  templateId?: string;
 } | null> => {
   let bestMatch: {
     studentId: string;
@@ -182,24 +357,45 @@ export const findBestMatch = async (
     name: string;
     confidence: number;
     distance: number;
+    templateId?: string;
   } | null = null;
   let bestDistance = Infinity;
 
   for (const student of studentDescriptors) {
-    const studentDescriptor = new Float32Array(student.faceDescriptor);
-    const distance = faceapi.euclideanDistance(probeDescriptor, studentDescriptor);
-    
-    console.log(`🔍 Comparing with ${student.name}: distance=${distance.toFixed(3)}`);
+    // Match against the whole gallery, falling back to the legacy single descriptor
+    const gallery = student.faceTemplates && student.faceTemplates.length > 0
+      ? student.faceTemplates
+      : student.faceDescriptor && student.faceDescriptor.length === 128
+        ? [{ _id: undefined, descriptor: student.faceDescriptor }]
+        : [];
+
+    let studentDistance = Infinity;
+    let studentTemplateId: string | undefined;
+
+    for (const template of gallery) {
+      const distance = faceapi.euclideanDistance(probeDescriptor, new Float32Array(template.descriptor));
+      if (distance < studentDistance) {
+        studentDistance = distance;
+        studentTemplateId = template._id?.toString();
+      }
+    }
+
+    if (gallery.length === 0) {
+      continue;
+    }
+
+    console.log(`🔍 Comparing with ${student.name} (${gallery.length} templates): distance=${studentDistance.toFixed(3)}`);
 
-    if (distance < threshold && distance < bestDistance) {
+    if (studentDistance < threshold && studentDistance < bestDistance) {
       bestMatch = {
         studentId: student._id,
         studentIdString: student.studentId,
         name: student.name,
-        confidence: Math.max(0, 1 - (distance / 1.0)),
-        distance: distance
+        confidence: Math.max(0, 1 - (studentDistance / 1.0)),
+        distance: studentDistance,
+        templateId: studentTemplateId
       };
-      bestDistance = distance;
+      bestDistance = studentDistance;
     }
   }
 
@@ -212,48 +408,258 @@ export const findBestMatch = async (
   return bestMatch;
 };
 
-export const validateFaceQuality = (detections: FaceDetectionResult[]): {
-  valid: boolean;
-  reason: string;
-  quality: number;
-} => {
-  if (!detections || detections.length === 0) {
-    return { valid: false, reason: 'No face detected', quality: 0 };
-  }
+// Configurable thresholds for enrollment captures
+const qualityThresholds = () => ({
+  minFaceSize: parseInt(process.env.FACE_QUALITY_MIN_SIZE || '100'),
+  minDetectionScore: parseFloat(process.env.FACE_QUALITY_MIN_SCORE || '0.7'),
+  maxYaw: parseFloat(process.env.FACE_QUALITY_MAX_YAW || '0.35'),
+  maxRoll: parseFloat(process.env.FACE_QUALITY_MAX_ROLL || '15'),
+  minBrightness: parseFloat(process.env.FACE_QUALITY_MIN_BRIGHTNESS || '60'),
+  maxBrightness: parseFloat(process.env.FACE_QUALITY_MAX_BRIGHTNESS || '200'),
+  minSharpness: parseFloat(process.env.FACE_QUALITY_MIN_SHARPNESS || '60')
+});
+
+export const isFaceQualityGateEnabled = (): boolean => {
+  return process.env.FACE_QUALITY_ENFORCE !== 'false';
+};
 
-  if (detections.length > 1) {
-    return { valid: false, reason: 'Multiple faces detected', quality: 0 };
+/**
+ * Measure brightness and sharpness of the face region with sharp
+ * Sharpness is the variance of the Laplacian on a fixed-size greyscale crop
+ */
+const measureFaceRegion = async (
+  imageBuffer: Buffer,
+  box: { x: number; y: number; width: number; height: number }
+): Promise<{ brightness: number; sharpness: number }> => {
+  const detectionImage = await prepareDetectionImage(imageBuffer);
+  const { width = 0, height = 0 } = await sharp(detectionImage).metadata();
+
+  const left = Math.max(0, Math.floor(box.x));
+  const top = Math.max(0, Math.floor(box.y));
+  const region = {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.floor(box.width))),
+    height: Math.max(1, Math.min(height - top, Math.floor(box.height)))
+  };
+
+  const faceCrop = await sharp(detectionImage)
+    .extract(region)
+    .resize(160, 160, { fit: 'fill' })
+    .greyscale()
+    .toBuffer();
+
+  const brightnessStats = await sharp(faceCrop).stats();
+
+  // Offset keeps negative Laplacian responses from being clipped to 0
+  const laplacianStats = await sharp(faceCrop)
+    .convolve({ width: 3, height: 3, kernel: [0, 1, 0, 1, -4, 1, 0, 1, 0], offset: 128 })
+    .stats();
+
+  return {
+    brightness: brightnessStats.channels[0].mean,
+    sharpness: Math.pow(laplacianStats.channels[0].stdev, 2)
+  };
+};
+
+/**
+ * Assess whether a capture is good enough to become a permanent face template
+ * Checks face size, detection score, pose (from landmarks), brightness and blur
+ */
+export const assessFaceQuality = async (
+  imageBuffer: Buffer,
+  detections: FaceDetectionResult[]
+): Promise<FaceQualityReport> => {
+  const thresholds = qualityThresholds();
+  const checks: FaceQualityCheck[] = [];
+  const measurements: FaceQualityReport['measurements'] = {};
+
+  checks.push({
+    name: 'faceCount',
+    passed: detections.length === 1,
+    value: detections.length,
+    threshold: 1,
+    message: detections.length === 0
+      ? 'No face detected'
+      : detections.length > 1 ? 'Multiple faces detected' : 'Exactly one face detected'
+  });
+
+  if (detections.length !== 1) {
+    return { passed: false, score: 0, checks, reasons: [checks[0].message], measurements };
   }
 
   const detection = detections[0];
   const box = detection.detection.box;
-
-  // Check face size (minimum 100x100 pixels)
-  if (box.width < 100 || box.height < 100) {
-    return { valid: false, reason: 'Face too small', quality: 0.3 };
+  const scores: number[] = [];
+
+  // Face size
+  const faceSize = Math.min(box.width, box.height);
+  measurements.faceWidth = Math.round(box.width);
+  measurements.faceHeight = Math.round(box.height);
+  checks.push({
+    name: 'faceSize',
+    passed: faceSize >= thresholds.minFaceSize,
+    value: Math.round(faceSize),
+    threshold: thresholds.minFaceSize,
+    message: faceSize >= thresholds.minFaceSize ? 'Face size acceptable' : 'Face too small. Please move closer to the camera.'
+  });
+  scores.push(Math.min(1, faceSize / (thresholds.minFaceSize * 2)));
+
+  // Detection confidence
+  const detectionScore = detection.detection.score;
+  measurements.detectionScore = Math.round(detectionScore * 1000) / 1000;
+  checks.push({
+    name: 'detectionScore',
+    passed: detectionScore >= thresholds.minDetectionScore,
+    value: measurements.detectionScore,
+    threshold: thresholds.minDetectionScore,
+    message: detectionScore >= thresholds.minDetectionScore ? 'Face detection confidence acceptable' : 'Face detection confidence too low'
+  });
+  scores.push(detectionScore);
+
+  // Pose from landmarks
+  if (detection.landmarks) {
+    const yaw = Math.abs(yawRatio(detection.landmarks.positions) - 0.5) * 2;
+    const roll = Math.abs(rollAngle(detection.landmarks.positions));
+    measurements.yaw = Math.round(yaw * 1000) / 1000;
+    measurements.roll = Math.round(roll * 10) / 10;
+
+    const posePassed = yaw <= thresholds.maxYaw && roll <= thresholds.maxRoll;
+    checks.push({
+      name: 'pose',
+      passed: posePassed,
+      value: measurements.yaw,
+      threshold: thresholds.maxYaw,
+      message: posePassed ? 'Face pose acceptable' : 'Please look straight at the camera and keep your head level.'
+    });
+    scores.push(Math.max(0, 1 - Math.max(yaw / thresholds.maxYaw, roll / thresholds.maxRoll) / 2));
   }
 
-  // Check detection confidence
-  if (detection.detection.score < 0.5) {
-    return { valid: false, reason: 'Face detection confidence too low', quality: 0.2 };
-  }
+  // Brightness and blur of the face region
+  const { brightness, sharpness } = await measureFaceRegion(imageBuffer, box);
+  measurements.brightness = Math.round(brightness);
+  measurements.sharpness = Math.round(sharpness);
+
+  const brightnessPassed = brightness >= thresholds.minBrightness && brightness <= thresholds.maxBrightness;
+  checks.push({
+    name: 'brightness',
+    passed: brightnessPassed,
+    value: measurements.brightness,
+    threshold: [thresholds.minBrightness, thresholds.maxBrightness],
+    message: brightnessPassed
+      ? 'Lighting acceptable'
+      : brightness < thresholds.minBrightness ? 'Image too dark. Please improve the lighting.' : 'Image too bright. Please avoid direct light on the face.'
+  });
+  scores.push(Math.max(0, 1 - Math.abs(brightness - 128) / 128));
+
+  checks.push({
+    name: 'sharpness',
+    passed: sharpness >= thresholds.minSharpness,
+    value: measurements.sharpness,
+    threshold: thresholds.minSharpness,
+    message: sharpness >= thresholds.minSharpness ? 'Image sharpness acceptable' : 'Image is blurry. Please hold still and try again.'
+  });
+  scores.push(Math.min(1, sharpness / (thresholds.minSharpness * 2)));
+
+  const failed = checks.filter(check => !check.passed);
+  const score = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+
+  console.log(`🔎 Face quality: score=${score.toFixed(3)}, failed=[${failed.map(c => c.name).join(', ')}]`);
 
-  // Calculate quality score based on size and confidence
-  const sizeScore = Math.min(1, (box.width * box.height) / (200 * 200));
-  const confidenceScore = detection.detection.score;
-  const quality = (sizeScore + confidenceScore) / 2;
+  return {
+    passed: failed.length === 0,
+    score: Math.round(score * 1000) / 1000,
+    checks,
+    reasons: failed.map(check => check.message),
+    measurements
+  };
+};
+
+// Configurable preprocessing parameters
+const preprocessOptions = () => ({
+  maxSize: parseInt(process.env.FACE_PREPROCESS_MAX_SIZE || '640'),
+  align: process.env.FACE_ALIGN_ENABLED !== 'false',
+  alignMargin: parseFloat(process.env.FACE_ALIGN_MARGIN || '1.1')
+});
+
+/**
+ * Rotate a point around the image center the same way sharp.rotate(angle) does
+ * Returns the offset from the center of the rotated image
+ */
+const rotateAroundCenter = (point: Point, angleDegrees: number, width: number, height: number): Point => {
+  const angle = angleDegrees * (Math.PI / 180);
+  const dx = point.x - width / 2;
+  const dy = point.y - height / 2;
 
   return {
-    valid: quality > 0.6,
-    reason: quality > 0.6 ? 'Face quality acceptable' : 'Face quality too low',
-    quality: quality
+    x: dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: dx * Math.sin(angle) + dy * Math.cos(angle)
   };
 };
 
-export const preprocessImage = async (imageBuffer: Buffer): Promise<Buffer> => {
+/**
+ * Rotate the detection frame so the eyes are level, crop a square around the
+ * detected face and compute its descriptor from that crop
+ */
+const computeAlignedDescriptor = async (
+  detectionImage: Buffer,
+  face: FaceDetectionResult,
+  options: ReturnType<typeof preprocessOptions>
+): Promise<Float32Array> => {
+  const { width = 0, height = 0 } = await sharp(detectionImage).metadata();
+
+  const box = face.detection.box;
+  const roll = rollAngle(face.landmarks.positions);
+  const faceCenter = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+
+  // sharp rotates clockwise on an enlarged canvas, rolling the head back to level
+  const rotatedImage = await sharp(detectionImage)
+    .rotate(-roll, { background: { r: 0, g: 0, b: 0 } })
+    .toBuffer();
+  const { width: rotatedWidth = 0, height: rotatedHeight = 0 } = await sharp(rotatedImage).metadata();
+
+  const offset = rotateAroundCenter(faceCenter, -roll, width, height);
+  const center = { x: rotatedWidth / 2 + offset.x, y: rotatedHeight / 2 + offset.y };
+
+  const side = Math.min(
+    Math.round(Math.max(box.width, box.height) * options.alignMargin),
+    rotatedWidth,
+    rotatedHeight
+  );
+  const left = Math.min(Math.max(0, Math.round(center.x - side / 2)), rotatedWidth - side);
+  const top = Math.min(Math.max(0, Math.round(center.y - side / 2)), rotatedHeight - side);
+
+  const alignedFace = await sharp(rotatedImage)
+    .extract({ left, top, width: side, height: side })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+
+  const img = await loadImage(alignedFace);
+  return await faceapi.computeFaceDescriptor(img as any) as Float32Array;
+};
+
+/**
+ * Normalize a captured image before descriptor extraction:
+ * EXIF auto-rotation, size normalization and lighting/contrast normalization.
+ * Face alignment happens during detection, from the landmarks it finds
+ */
+export const preprocessImage = async (imageBuffer: Buffer): Promise<PreprocessedImage> => {
+  const options = preprocessOptions();
+
   try {
-    // For face-api.js, we can return the buffer as-is since it handles image processing internally
-    return imageBuffer;
+    const original = await sharp(imageBuffer)
+      .rotate() // apply EXIF orientation
+      .resize(options.maxSize, options.maxSize, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+
+    const image = await sharp(original)
+      .normalise() // stretch luminance to the full range
+      .clahe({ width: 64, height: 64, maxSlope: 3 }) // local contrast for unevenly lit faces
+      .jpeg({ quality: 90 })
+      .toBuffer();
+
+    return { image, original };
   } catch (error) {
     console.error('❌ Image preprocessing error:', error);
     throw new Error('Image preprocessing failed');
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { faceWorkerPool } from '../services/faceWorkerPool';
+import { ApiResponse } from '../types';
+
+/**
+ * Answer 503 with Retry-After when the face worker queue is full
+ */
+export const sendFaceWorkersBusy = (res: Response, retryAfterSeconds: number): void => {
+  const response: ApiResponse = {
+    success: false,
+    message: 'Face recognition is busy. Please try again shortly.',
+    code: 'FACE_WORKERS_BUSY',
+    data: { retryAfterSeconds }
+  };
+
+  res.set('Retry-After', String(retryAfterSeconds));
+  res.status(503).json(response);
+};
+
+/**
+ * Refuse face capture requests up front while the worker queue is full,
+ * before the image is decoded and preprocessed
+ */
+export const rejectWhenFaceWorkersBusy = (req: Request, res: Response, next: NextFunction): void => {
+  if (faceWorkerPool.isSaturated()) {
+    faceWorkerPool.recordRejection();
+    sendFaceWorkersBusy(res, faceWorkerPool.estimateRetryAfterSeconds());
+    return;
+  }
+
+  next();
+};
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { validationResult } from 'express-validator';
+import { body, validationResult } from 'express-validator';
 import { ApiResponse } from '../types';
 
 export const validateRequest = (req: Request, res: Response, next: NextFunction): void => {
@@ -22,3 +22,27 @@ export const validateRequest = (req: Request, res: Response, next: NextFunction)
   
   next();
 };
+
+// Optional per-request face detector selection, shared by the face capture endpoints
+export const faceDetectorValidation = [
+  body('detector')
+    .optional()
+    .isObject()
+    .withMessage('Detector options must be an object'),
+  body('detector.type')
+    .optional()
+    .isIn(['tiny', 'ssd'])
+    .withMessage('Detector type must be one of: tiny, ssd'),
+  body('detector.inputSize')
+    .optional()
+    .isInt({ min: 128, max: 608 })
+    .withMessage('Detector input size must be a multiple of 32 between 128 and 608')
+    .custom(value => Number(value) % 32 === 0)
+    .withMessage('Detector input size must be a multiple of 32 between 128 and 608')
+    .toInt(),
+  body('detector.scoreThreshold')
+    .optional()
+    .isFloat({ min: 0.1, max: 0.99 })
+    .withMessage('Detector score threshold must be between 0.1 and 0.99')
+    .toFloat()
+];
@@ -0,0 +1,154 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAcademicCalendar, IAcademicTerm, ICalendarDay, ICourseWeeklyOff } from '../types';
+import { COURSE_OPTIONS } from './Student';
+
+const weekdaysValidator = {
+  validator: function(days: number[]) {
+    return days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+  },
+  message: 'Weekly offs must be weekdays between 0 (Sunday) and 6 (Saturday)'
+};
+
+const termSchema = new Schema<IAcademicTerm>({
+  name: {
+    type: String,
+    required: [true, 'Term name is required'],
+    trim: true,
+    maxlength: [100, 'Term name cannot exceed 100 characters']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Term start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'Term end date is required']
+  }
+});
+
+const calendarDaySchema = new Schema<ICalendarDay>({
+  date: {
+    type: Date,
+    required: [true, 'Date is required']
+  },
+  endDate: {
+    type: Date
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  courses: {
+    type: [{ type: String, enum: { values: COURSE_OPTIONS, message: 'Invalid course selection' } }],
+    default: []
+  }
+});
+
+const courseWeeklyOffSchema = new Schema<ICourseWeeklyOff>({
+  course: {
+    type: String,
+    required: [true, 'Course is required'],
+    enum: {
+      values: COURSE_OPTIONS,
+      message: 'Invalid course selection'
+    }
+  },
+  weeklyOffs: {
+    type: [Number],
+    default: [],
+    validate: weekdaysValidator
+  }
+}, { _id: false });
+
+const academicCalendarSchema = new Schema<IAcademicCalendar>({
+  name: {
+    type: String,
+    required: [true, 'Calendar name is required'],
+    unique: true,
+    trim: true,
+    maxlength: [100, 'Calendar name cannot exceed 100 characters']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  weeklyOffs: {
+    type: [Number],
+    default: [0],
+    validate: weekdaysValidator
+  },
+  courseWeeklyOffs: {
+    type: [courseWeeklyOffSchema],
+    default: []
+  },
+  terms: {
+    type: [termSchema],
+    default: []
+  },
+  holidays: {
+    type: [calendarDaySchema],
+    default: []
+  },
+  workingDays: {
+    type: [calendarDaySchema],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+academicCalendarSchema.index({ startDate: 1, endDate: 1, isActive: 1 });
+
+// Store every date as the start of its (server local) day
+const startOfDay = (date?: Date): Date | undefined => {
+  if (!date) return date;
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+academicCalendarSchema.pre('validate', function(next) {
+  this.startDate = startOfDay(this.startDate)!;
+  this.endDate = startOfDay(this.endDate)!;
+
+  if (this.endDate < this.startDate) {
+    return next(new Error('Calendar end date must not be before its start date'));
+  }
+
+  for (const term of this.terms) {
+    term.startDate = startOfDay(term.startDate)!;
+    term.endDate = startOfDay(term.endDate)!;
+    if (term.endDate < term.startDate || term.startDate < this.startDate || term.endDate > this.endDate) {
+      return next(new Error(`Term ${term.name} must lie within the calendar dates`));
+    }
+  }
+
+  for (const day of [...this.holidays, ...this.workingDays]) {
+    day.date = startOfDay(day.date)!;
+    day.endDate = startOfDay(day.endDate);
+    if (day.endDate && day.endDate < day.date) {
+      return next(new Error(`${day.name} ends before it starts`));
+    }
+  }
+
+  next();
+});
+
+export default mongoose.model<IAcademicCalendar>('AcademicCalendar', academicCalendarSchema);
@@ -0,0 +1,85 @@
+import Attendance from './Attendance';
+
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+const HOUR = 60 * 60 * 1000;
+
+const record = (fields: Record<string, unknown> = {}) => new Attendance({
+  student: 'student-id',
+  studentId: 'MCA001',
+  date: at(0),
+  location: 'Main gate',
+  ...fields
+});
+
+describe('Attendance intervals', () => {
+  describe('ensureIntervals', () => {
+    it('turns a record from before intervals into a single visit', () => {
+      const attendance = record({ timeIn: at(9), timeOut: at(13), autoCheckout: true, loginPhotoUrl: '/in.jpg' });
+
+      attendance.ensureIntervals();
+
+      expect(attendance.intervals).toHaveLength(1);
+      expect(attendance.intervals[0]).toMatchObject({ timeIn: at(9), timeOut: at(13), autoCheckout: true, loginPhotoUrl: '/in.jpg' });
+    });
+
+    it('leaves absent records and existing intervals alone', () => {
+      const absent = record({ status: 'absent' });
+      absent.ensureIntervals();
+      expect(absent.intervals).toHaveLength(0);
+
+      const attendance = record({ timeIn: at(9), intervals: [{ timeIn: at(9) }, { timeIn: at(14) }] });
+      attendance.ensureIntervals();
+      expect(attendance.intervals).toHaveLength(2);
+    });
+  });
+
+  describe('checkIn and checkOut', () => {
+    it('records each visit and closes only the open one', () => {
+      const attendance = record({ timeIn: at(9) });
+
+      expect(attendance.checkOut(at(12), { logoutPhotoUrl: '/out.jpg' })).toMatchObject({ timeIn: at(9), timeOut: at(12) });
+      expect(attendance.openInterval()).toBeUndefined();
+      expect(attendance.checkOut(at(12, 30))).toBeNull();
+
+      attendance.checkIn(at(14), '/back.jpg');
+      expect(attendance.timeOut).toBeUndefined();
+      expect(attendance.openInterval()).toMatchObject({ timeIn: at(14), loginPhotoUrl: '/back.jpg' });
+
+      attendance.checkOut(at(17), { auto: true });
+      expect(attendance.intervals.map(interval => [interval.timeIn, interval.timeOut])).toEqual([
+        [at(9), at(12)],
+        [at(14), at(17)]
+      ]);
+      expect(attendance).toMatchObject({ timeIn: at(9), timeOut: at(17), autoCheckout: true, logoutPhotoUrl: '/out.jpg' });
+    });
+
+    it('clears the automatic checkout flag when the student comes back', () => {
+      const attendance = record({ timeIn: at(9) });
+      attendance.checkOut(at(20), { auto: true });
+
+      attendance.checkIn(at(21));
+
+      expect(attendance.autoCheckout).toBe(false);
+      expect(attendance.intervals[0].autoCheckout).toBe(true);
+    });
+  });
+
+  describe('totalDuration', () => {
+    it('adds up every visit, counting an open one until now', () => {
+      const attendance = record({ timeIn: at(9) });
+      attendance.checkOut(at(12));
+      attendance.checkIn(at(14));
+
+      expect(attendance.totalDuration(at(16))).toBe(5 * HOUR);
+
+      attendance.checkOut(at(17));
+      expect(attendance.totalDuration(at(23))).toBe(6 * HOUR);
+    });
+
+    it('uses timeIn and timeOut for records without intervals', () => {
+      expect(record({ timeIn: at(9), timeOut: at(11) }).totalDuration()).toBe(2 * HOUR);
+      expect(record({ timeIn: at(9) }).totalDuration(at(10))).toBe(HOUR);
+      expect(record({ status: 'absent' }).totalDuration()).toBe(0);
+    });
+  });
+});
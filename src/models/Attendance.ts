@@ -1,5 +1,33 @@
 import mongoose, { Schema } from 'mongoose';
-import { IAttendance } from '../types';
+import { AttendanceStatus, IAttendance, IAttendanceInterval } from '../types';
+import { COURSE_OPTIONS } from './Student';
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'half-day', 'early-leave'];
+
+// Statuses that mean the student turned up
+export const ATTENDED_STATUSES: AttendanceStatus[] = ['present', 'late', 'half-day', 'early-leave'];
+
+const intervalSchema = new Schema<IAttendanceInterval>({
+  timeIn: {
+    type: Date,
+    required: [true, 'Time in is required']
+  },
+  timeOut: {
+    type: Date
+  },
+  autoCheckout: {
+    type: Boolean,
+    default: false
+  },
+  loginPhotoUrl: {
+    type: String,
+    trim: true
+  },
+  logoutPhotoUrl: {
+    type: String,
+    trim: true
+  }
+});
 
 const attendanceSchema = new Schema<IAttendance>({
   student: {
@@ -18,19 +46,27 @@ const attendanceSchema = new Schema<IAttendance>({
     required: [true, 'Date is required'],
     default: Date.now
   },
+  // Absent records written by the roll call have no scan
   timeIn: {
     type: Date,
-    required: [true, 'Time in is required'],
-    default: Date.now
+    required: [function(this: IAttendance) { return this.status !== 'absent'; }, 'Time in is required']
   },
   timeOut: {
     type: Date
   },
+  intervals: {
+    type: [intervalSchema],
+    default: []
+  },
+  autoCheckout: {
+    type: Boolean,
+    default: false
+  },
   status: {
     type: String,
     enum: {
-      values: ['present', 'absent'],
-      message: 'Status must be one of: present, absent'
+      values: ATTENDANCE_STATUSES,
+      message: `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`
     },
     default: 'present'
   },
@@ -43,10 +79,35 @@ const attendanceSchema = new Schema<IAttendance>({
   biometricMethod: {
     type: String,
     enum: {
-      values: ['face', 'fingerprint'],
-      message: 'Biometric method must be either face or fingerprint'
+      values: ['face', 'fingerprint', 'manual'],
+      message: 'Biometric method must be one of: face, fingerprint, manual'
     },
-    required: [true, 'Biometric method is required']
+    required: [function(this: IAttendance) { return this.status !== 'absent'; }, 'Biometric method is required']
+  },
+  // Course the student was enrolled in when marked absent
+  course: {
+    type: String,
+    enum: {
+      values: COURSE_OPTIONS,
+      message: 'Invalid course selection'
+    }
+  },
+  enteredBy: {
+    type: String,
+    ref: 'User'
+  },
+  manualReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  session: {
+    type: String,
+    ref: 'ClassSession'
+  },
+  subject: {
+    type: String,
+    trim: true
   },
   location: {
     type: String,
@@ -75,6 +136,14 @@ const attendanceSchema = new Schema<IAttendance>({
     ip: {
       type: String,
       trim: true
+    },
+    device: {
+      type: String,
+      ref: 'Device'
+    },
+    deviceName: {
+      type: String,
+      trim: true
     }
   },
   notes: {
@@ -90,22 +159,35 @@ const attendanceSchema = new Schema<IAttendance>({
 
 // Compound indexes for efficient queries
 attendanceSchema.index({ student: 1, date: 1 });
+attendanceSchema.index({ student: 1, date: 1, session: 1 });
+attendanceSchema.index({ session: 1, date: 1 });
 attendanceSchema.index({ date: 1, status: 1 });
 attendanceSchema.index({ studentId: 1, date: 1 });
 attendanceSchema.index({ timeIn: 1 });
+attendanceSchema.index({ timeOut: 1, date: 1 });
 attendanceSchema.index({ location: 1 });
+attendanceSchema.index({ 'deviceInfo.device': 1 });
+attendanceSchema.index({ biometricMethod: 1, date: 1 });
 
-// Virtual for duration
+// Virtual for duration (time on campus across every interval)
 attendanceSchema.virtual('duration').get(function() {
   if (this.timeOut) {
-    return this.timeOut.getTime() - this.timeIn.getTime();
+    return this.totalDuration();
   }
   return null;
 });
 
 // Virtual for formatted time
 attendanceSchema.virtual('formattedTimeIn').get(function() {
-  return this.timeIn.toLocaleString();
+  return this.timeIn?.toLocaleString();
+});
+
+// Manual entries must say who entered them and why
+attendanceSchema.pre('validate', function(next) {
+  if (this.biometricMethod === 'manual' && (!this.enteredBy || !this.manualReason)) {
+    return next(new Error('Manual attendance requires the staff member and a reason'));
+  }
+  next();
 });
 
 // Pre-save middleware
@@ -119,9 +201,84 @@ attendanceSchema.pre('save', function(next) {
     this.date.setHours(0, 0, 0, 0);
   }
   
+  this.ensureIntervals();
+  
   next();
 });
 
+// Instance methods
+
+/**
+ * Records created before intervals existed hold a single visit in timeIn/timeOut
+ */
+attendanceSchema.methods.ensureIntervals = function(): void {
+  if (this.intervals.length === 0 && this.timeIn) {
+    this.intervals.push({
+      timeIn: this.timeIn,
+      timeOut: this.timeOut,
+      autoCheckout: this.autoCheckout,
+      loginPhotoUrl: this.loginPhotoUrl,
+      logoutPhotoUrl: this.logoutPhotoUrl
+    });
+  }
+};
+
+attendanceSchema.methods.openInterval = function(): IAttendanceInterval | undefined {
+  this.ensureIntervals();
+  const last = this.intervals[this.intervals.length - 1];
+  return last && !last.timeOut ? last : undefined;
+};
+
+/**
+ * Start a new visit; the record counts as checked in until the next check-out
+ */
+attendanceSchema.methods.checkIn = function(at: Date, loginPhotoUrl?: string): IAttendanceInterval {
+  this.ensureIntervals();
+  this.intervals.push({ timeIn: at, loginPhotoUrl });
+  this.timeOut = undefined;
+  this.autoCheckout = false;
+  return this.intervals[this.intervals.length - 1];
+};
+
+/**
+ * Close the open visit; returns null when the student is not checked in
+ */
+attendanceSchema.methods.checkOut = function(
+  at: Date,
+  options: { auto?: boolean; logoutPhotoUrl?: string } = {}
+): IAttendanceInterval | null {
+  const open = this.openInterval();
+  if (!open) {
+    return null;
+  }
+
+  open.timeOut = at;
+  open.autoCheckout = !!options.auto;
+  open.logoutPhotoUrl = options.logoutPhotoUrl;
+
+  this.timeOut = at;
+  this.autoCheckout = !!options.auto;
+  if (options.logoutPhotoUrl) {
+    this.logoutPhotoUrl = options.logoutPhotoUrl;
+  }
+
+  return open;
+};
+
+/**
+ * Milliseconds on campus across every visit; an open visit counts until `now`
+ */
+attendanceSchema.methods.totalDuration = function(now: Date = new Date()): number {
+  if (this.intervals.length === 0) {
+    return this.timeIn ? (this.timeOut || now).getTime() - this.timeIn.getTime() : 0;
+  }
+
+  return this.intervals.reduce(
+    (total: number, interval: IAttendanceInterval) => total + ((interval.timeOut || now).getTime() - interval.timeIn.getTime()),
+    0
+  );
+};
+
 // Static methods
 attendanceSchema.statics.findByDateRange = function(startDate: Date, endDate: Date) {
   return this.find({
@@ -0,0 +1,79 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAttendanceRule } from '../types';
+import { COURSE_OPTIONS } from './Student';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const attendanceRuleSchema = new Schema<IAttendanceRule>({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  course: {
+    type: String,
+    trim: true,
+    enum: {
+      values: COURSE_OPTIONS,
+      message: 'Invalid course selection'
+    }
+  },
+  location: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Location cannot exceed 100 characters']
+  },
+  startTime: {
+    type: String,
+    required: [true, 'Start time is required'],
+    match: [TIME_PATTERN, 'Start time must be in HH:mm format']
+  },
+  graceMinutes: {
+    type: Number,
+    default: 10,
+    min: [0, 'Grace period cannot be negative'],
+    max: [240, 'Grace period cannot exceed 240 minutes']
+  },
+  halfDayAfter: {
+    type: String,
+    match: [TIME_PATTERN, 'Half-day cutoff must be in HH:mm format']
+  },
+  minimumHours: {
+    type: Number,
+    min: [0, 'Minimum hours cannot be negative'],
+    max: [24, 'Minimum hours cannot exceed 24']
+  },
+  autoCheckoutTime: {
+    type: String,
+    match: [TIME_PATTERN, 'Auto checkout time must be in HH:mm format']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+attendanceRuleSchema.index({ course: 1, location: 1, isActive: 1 });
+
+// HH:mm strings compare correctly as text
+attendanceRuleSchema.pre('validate', function(next) {
+  if (this.halfDayAfter && this.startTime && this.halfDayAfter <= this.startTime) {
+    return next(new Error('Half-day cutoff must be after the start time'));
+  }
+  if (this.autoCheckoutTime && this.startTime && this.autoCheckoutTime <= this.startTime) {
+    return next(new Error('Auto checkout time must be after the start time'));
+  }
+  next();
+});
+
+export default mongoose.model<IAttendanceRule>('AttendanceRule', attendanceRuleSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema } from 'mongoose';
+import { IClassSession } from '../types';
+import { COURSE_OPTIONS } from './Student';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const classSessionSchema = new Schema<IClassSession>({
+  course: {
+    type: String,
+    required: [true, 'Course is required'],
+    trim: true,
+    enum: {
+      values: COURSE_OPTIONS,
+      message: 'Invalid course selection'
+    }
+  },
+  subject: {
+    type: String,
+    required: [true, 'Subject is required'],
+    trim: true,
+    maxlength: [100, 'Subject cannot exceed 100 characters']
+  },
+  teacher: {
+    type: String,
+    ref: 'User'
+  },
+  weekday: {
+    type: Number,
+    required: [true, 'Weekday is required'],
+    min: [0, 'Weekday must be between 0 (Sunday) and 6 (Saturday)'],
+    max: [6, 'Weekday must be between 0 (Sunday) and 6 (Saturday)']
+  },
+  startTime: {
+    type: String,
+    required: [true, 'Start time is required'],
+    match: [TIME_PATTERN, 'Start time must be in HH:mm format']
+  },
+  endTime: {
+    type: String,
+    required: [true, 'End time is required'],
+    match: [TIME_PATTERN, 'End time must be in HH:mm format']
+  },
+  room: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Room cannot exceed 100 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+classSessionSchema.index({ course: 1, weekday: 1, isActive: 1 });
+classSessionSchema.index({ teacher: 1 });
+
+// HH:mm strings compare correctly as text
+classSessionSchema.pre('validate', function(next) {
+  if (this.startTime && this.endTime && this.endTime <= this.startTime) {
+    return next(new Error('End time must be after start time'));
+  }
+  next();
+});
+
+export default mongoose.model<IClassSession>('ClassSession', classSessionSchema);
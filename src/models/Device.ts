@@ -0,0 +1,59 @@
+import mongoose, { Schema } from 'mongoose';
+import { IDevice } from '../types';
+
+const deviceSchema = new Schema<IDevice>({
+  name: {
+    type: String,
+    required: [true, 'Device name is required'],
+    unique: true,
+    trim: true,
+    minlength: [2, 'Device name must be at least 2 characters'],
+    maxlength: [100, 'Device name cannot exceed 100 characters']
+  },
+  location: {
+    type: String,
+    required: [true, 'Location is required'],
+    trim: true,
+    maxlength: [100, 'Location cannot exceed 100 characters']
+  },
+  secretKey: {
+    type: String,
+    required: [true, 'Secret key is required'],
+    select: false
+  },
+  isEnabled: {
+    type: Boolean,
+    default: true
+  },
+  keyRotatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastSeenAt: {
+    type: Date
+  },
+  lastSeenIp: {
+    type: String,
+    trim: true
+  },
+  registeredBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret) => {
+      delete ret.secretKey;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+deviceSchema.index({ isEnabled: 1 });
+deviceSchema.index({ location: 1 });
+
+export default mongoose.model<IDevice>('Device', deviceSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema } from 'mongoose';
+import { IDeviceNonce } from '../types';
+
+const deviceNonceSchema = new Schema<IDeviceNonce>({
+  device: {
+    type: String,
+    ref: 'Device',
+    required: [true, 'Device reference is required']
+  },
+  nonce: {
+    type: String,
+    required: [true, 'Nonce is required'],
+    maxlength: [128, 'Nonce cannot exceed 128 characters']
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// A device may use each nonce once
+deviceNonceSchema.index({ device: 1, nonce: 1 }, { unique: true });
+
+// MongoDB removes nonces once their request could no longer pass the timestamp check
+deviceNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IDeviceNonce>('DeviceNonce', deviceNonceSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILeave, LeaveStatus, LeaveType } from '../types';
+
+export const LEAVE_TYPES: LeaveType[] = ['sick', 'family', 'official', 'other'];
+export const LEAVE_STATUSES: LeaveStatus[] = ['pending', 'approved', 'rejected'];
+
+const leaveSchema = new Schema<ILeave>({
+  student: {
+    type: String,
+    ref: 'Student',
+    required: [true, 'Student reference is required']
+  },
+  studentId: {
+    type: String,
+    required: [true, 'Student ID is required'],
+    trim: true,
+    uppercase: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  type: {
+    type: String,
+    required: [true, 'Leave type is required'],
+    enum: {
+      values: LEAVE_TYPES,
+      message: `Leave type must be one of: ${LEAVE_TYPES.join(', ')}`
+    }
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  attachmentUrl: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: {
+      values: LEAVE_STATUSES,
+      message: `Status must be one of: ${LEAVE_STATUSES.join(', ')}`
+    },
+    default: 'pending'
+  },
+  submittedBy: {
+    type: String,
+    ref: 'User'
+  },
+  reviewedBy: {
+    type: String,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+leaveSchema.index({ student: 1, startDate: 1, endDate: 1 });
+leaveSchema.index({ status: 1, startDate: 1, endDate: 1 });
+
+// Leave covers whole days
+leaveSchema.pre('validate', function(next) {
+  if (this.startDate) this.startDate.setHours(0, 0, 0, 0);
+  if (this.endDate) this.endDate.setHours(0, 0, 0, 0);
+
+  if (this.startDate && this.endDate && this.endDate < this.startDate) {
+    return next(new Error('Leave end date must not be before its start date'));
+  }
+  next();
+});
+
+export default mongoose.model<ILeave>('Leave', leaveSchema);
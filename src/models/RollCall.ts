@@ -0,0 +1,42 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRollCall } from '../types';
+
+const rollCallSchema = new Schema<IRollCall>({
+  date: {
+    type: Date,
+    required: [true, 'Date is required'],
+    unique: true
+  },
+  expected: {
+    type: Number,
+    default: 0
+  },
+  present: {
+    type: Number,
+    default: 0
+  },
+  absent: {
+    type: Number,
+    default: 0
+  },
+  excused: {
+    type: Number,
+    default: 0
+  },
+  closedBy: {
+    type: String,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// A register covers a whole day
+rollCallSchema.pre('validate', function(next) {
+  if (this.date) this.date.setHours(0, 0, 0, 0);
+  next();
+});
+
+export default mongoose.model<IRollCall>('RollCall', rollCallSchema);
@@ -1,5 +1,129 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IStudent } from '../types';
+import { IDuplicateFaceFlag, IFaceTemplate, IFingerprintCredential, IStudent, IVerifiedRegistration } from '../types';
+
+const faceTemplateSchema = new Schema<IFaceTemplate>({
+  descriptor: {
+    type: [Number],
+    required: [true, 'Face descriptor is required'],
+    validate: {
+      validator: function(arr: number[]) {
+        return arr.length === 128;
+      },
+      message: 'Face descriptor must contain exactly 128 numbers'
+    }
+  },
+  quality: {
+    type: Number,
+    min: [0, 'Quality must be between 0 and 1'],
+    max: [1, 'Quality must be between 0 and 1'],
+    default: 0
+  },
+  source: {
+    type: String,
+    enum: {
+      values: ['enrollment', 're-enrollment'],
+      message: 'Source must be either enrollment or re-enrollment'
+    },
+    default: 'enrollment'
+  },
+  imageUrl: {
+    type: String,
+    trim: true
+  },
+  capturedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Credential IDs are kept base64url so one credential always has one spelling
+const normalizeCredentialId = (credentialId: string): string =>
+  Buffer.from(credentialId, 'base64url').toString('base64url');
+
+const fingerprintCredentialSchema = new Schema<IFingerprintCredential>({
+  credentialId: {
+    type: String,
+    required: [true, 'Credential ID is required'],
+    trim: true,
+    set: normalizeCredentialId
+  },
+  publicKey: {
+    type: String,
+    required: [true, 'Credential public key is required']
+  },
+  algorithm: {
+    type: Number
+  },
+  counter: {
+    type: Number,
+    default: 0
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Label cannot exceed 50 characters'],
+    default: 'Fingerprint'
+  },
+  attestationFormat: {
+    type: String
+  },
+  aaguid: {
+    type: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  revoked: {
+    type: Boolean,
+    default: false
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedBy: {
+    type: String,
+    ref: 'User'
+  }
+});
+
+const duplicateFaceFlagSchema = new Schema<IDuplicateFaceFlag>({
+  student: {
+    type: String,
+    ref: 'Student',
+    required: true
+  },
+  studentId: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  distance: {
+    type: Number,
+    required: true
+  },
+  detectedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+export const COURSE_OPTIONS = [
+  '1st Standard', '2nd Standard', '3rd Standard', '4th Standard', '5th Standard',
+  '6th Standard', '7th Standard', '8th Standard', '9th Standard', '10th Standard',
+  '1st PUC - Science', '1st PUC - Commerce',
+  '2nd PUC - Science', '2nd PUC - Commerce',
+  'Degree - MCA', 'Degree - BCA', 'Degree - B.Com', 'Degree - B.Sc', 'Degree - BA', 'Degree - Other'
+];
+
+// Maximum number of face templates kept per student (oldest are dropped first)
+const MAX_FACE_TEMPLATES = parseInt(process.env.FACE_TEMPLATE_MAX || '10');
 
 const studentSchema = new Schema<IStudent>({
   studentId: {
@@ -35,13 +159,7 @@ const studentSchema = new Schema<IStudent>({
     required: [true, 'Course is required'],
     trim: true,
     enum: {
-      values: [
-        '1st Standard', '2nd Standard', '3rd Standard', '4th Standard', '5th Standard',
-        '6th Standard', '7th Standard', '8th Standard', '9th Standard', '10th Standard',
-        '1st PUC - Science', '1st PUC - Commerce',
-        '2nd PUC - Science', '2nd PUC - Commerce',
-        'Degree - MCA', 'Degree - BCA', 'Degree - B.Com', 'Degree - B.Sc', 'Degree - BA', 'Degree - Other'
-      ],
+      values: COURSE_OPTIONS,
       message: 'Invalid course selection'
     }
   },
@@ -55,6 +173,14 @@ const studentSchema = new Schema<IStudent>({
       message: 'Face descriptor must contain exactly 128 numbers'
     }
   },
+  faceTemplates: {
+    type: [faceTemplateSchema],
+    default: []
+  },
+  duplicateFaceFlags: {
+    type: [duplicateFaceFlagSchema],
+    default: []
+  },
   faceImage: {
     type: String,
     required: false
@@ -63,6 +189,10 @@ const studentSchema = new Schema<IStudent>({
     type: String,
     trim: true
   },
+  fingerprintCredentials: {
+    type: [fingerprintCredentialSchema],
+    default: []
+  },
   fingerprintCredentialId: {
     type: String,
     trim: true,
@@ -72,10 +202,18 @@ const studentSchema = new Schema<IStudent>({
     type: String,
     trim: true
   },
+  fingerprintAlgorithm: {
+    type: Number
+  },
   fingerprintCounter: {
     type: Number,
     default: 0
   },
+  webauthnUserId: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
   biometricMethods: {
     type: [String],
     enum: ['face', 'fingerprint'],
@@ -102,6 +240,9 @@ studentSchema.index({ phone: 1 });
 studentSchema.index({ faceDescriptor: 1 });
 studentSchema.index({ isActive: 1 });
 studentSchema.index({ course: 1 });
+studentSchema.index({ 'duplicateFaceFlags.student': 1 });
+// A credential belongs to exactly one student
+studentSchema.index({ 'fingerprintCredentials.credentialId': 1 }, { unique: true, sparse: true });
 
 // Virtual for full name
 studentSchema.virtual('fullName').get(function() {
@@ -115,20 +256,165 @@ studentSchema.pre('save', function(next) {
   }
   
   // Validate at least one biometric method is provided
-  if (this.isNew && (!this.faceDescriptor || this.faceDescriptor.length === 0) && !this.fingerprintCredentialId) {
+  const hasFace = this.faceTemplates.length > 0 || (this.faceDescriptor && this.faceDescriptor.length > 0);
+  const hasFingerprint = this.fingerprintCredentials.some(c => !c.revoked) || !!this.fingerprintCredentialId;
+  if (this.isNew && !hasFace && !hasFingerprint) {
     return next(new Error('At least one biometric method (face or fingerprint) must be provided'));
   }
   
   next();
 });
 
+// Instance methods
+studentSchema.methods.addFaceTemplate = function(template: Omit<IFaceTemplate, '_id' | 'capturedAt'> & { capturedAt?: Date }): IFaceTemplate {
+  this.migrateLegacyFaceDescriptor();
+  this.faceTemplates.push(template);
+
+  // Drop the oldest templates once the gallery is full
+  if (this.faceTemplates.length > MAX_FACE_TEMPLATES) {
+    this.faceTemplates.sort((a: IFaceTemplate, b: IFaceTemplate) => a.capturedAt.getTime() - b.capturedAt.getTime());
+    this.faceTemplates.splice(0, this.faceTemplates.length - MAX_FACE_TEMPLATES);
+  }
+
+  const latest = this.faceTemplates[this.faceTemplates.length - 1];
+  this.faceDescriptor = latest.descriptor;
+
+  if (!this.biometricMethods.includes('face')) {
+    this.biometricMethods.push('face');
+  }
+
+  return latest;
+};
+
+studentSchema.methods.removeFaceTemplate = function(templateId: string): boolean {
+  const index = this.faceTemplates.findIndex((t: IFaceTemplate) => t._id.toString() === templateId);
+  if (index === -1) {
+    return false;
+  }
+
+  this.faceTemplates.splice(index, 1);
+
+  if (this.faceTemplates.length > 0) {
+    const latest = this.faceTemplates.reduce((a: IFaceTemplate, b: IFaceTemplate) => (a.capturedAt > b.capturedAt ? a : b));
+    this.faceDescriptor = latest.descriptor;
+  } else {
+    this.faceDescriptor = undefined;
+    this.biometricMethods = this.biometricMethods.filter((m: string) => m !== 'face');
+  }
+
+  return true;
+};
+
+/**
+ * Keep the face descriptor of a student enrolled before the gallery existed as
+ * their first template. Returns true when the document changed
+ */
+studentSchema.methods.migrateLegacyFaceDescriptor = function(): boolean {
+  if (this.faceTemplates.length > 0 || !this.faceDescriptor || this.faceDescriptor.length === 0) {
+    return false;
+  }
+
+  this.faceTemplates.push({
+    descriptor: this.faceDescriptor,
+    source: 'enrollment',
+    capturedAt: this.enrolledAt
+  });
+  return true;
+};
+
+/**
+ * Move the legacy single fingerprint credential into fingerprintCredentials
+ * Returns true when the document changed
+ */
+studentSchema.methods.migrateLegacyFingerprint = function(): boolean {
+  if (!this.fingerprintCredentialId || !this.fingerprintPublicKey) {
+    return false;
+  }
+
+  const alreadyMoved = this.fingerprintCredentials.some(
+    (c: IFingerprintCredential) => c.credentialId === normalizeCredentialId(this.fingerprintCredentialId)
+  );
+  if (!alreadyMoved) {
+    this.fingerprintCredentials.push({
+      credentialId: this.fingerprintCredentialId,
+      publicKey: this.fingerprintPublicKey,
+      algorithm: this.fingerprintAlgorithm,
+      counter: this.fingerprintCounter || 0,
+      label: 'Fingerprint',
+      createdAt: this.enrolledAt
+    });
+  }
+
+  this.fingerprintCredentialId = undefined;
+  this.fingerprintPublicKey = undefined;
+  this.fingerprintAlgorithm = undefined;
+  this.fingerprintCounter = undefined;
+  return true;
+};
+
+studentSchema.methods.activeFingerprintCredentialCount = function(): number {
+  const legacy = this.fingerprintCredentialId ? 1 : 0;
+  return legacy + this.fingerprintCredentials.filter((c: IFingerprintCredential) => !c.revoked).length;
+};
+
+studentSchema.methods.addFingerprintCredential = function(registration: IVerifiedRegistration, label?: string): IFingerprintCredential {
+  this.migrateLegacyFingerprint();
+
+  this.fingerprintCredentials.push({
+    credentialId: registration.credentialId,
+    publicKey: registration.publicKey,
+    algorithm: registration.algorithm,
+    counter: registration.counter,
+    label: label || `Fingerprint ${this.activeFingerprintCredentialCount() + 1}`,
+    attestationFormat: registration.attestationFormat,
+    aaguid: registration.aaguid,
+    createdAt: new Date()
+  });
+
+  if (!this.biometricMethods.includes('fingerprint')) {
+    this.biometricMethods.push('fingerprint');
+  }
+
+  return this.fingerprintCredentials[this.fingerprintCredentials.length - 1];
+};
+
+/**
+ * Find a credential by its WebAuthn credential ID, including revoked ones
+ */
+studentSchema.methods.findFingerprintCredential = function(credentialId: string): IFingerprintCredential | undefined {
+  this.migrateLegacyFingerprint();
+  const id = normalizeCredentialId(credentialId);
+  return this.fingerprintCredentials.find((c: IFingerprintCredential) => normalizeCredentialId(c.credentialId) === id);
+};
+
+studentSchema.methods.revokeFingerprintCredential = function(id: string, revokedBy?: string): IFingerprintCredential | null {
+  this.migrateLegacyFingerprint();
+
+  const credential = this.fingerprintCredentials.find(
+    (c: IFingerprintCredential) => c._id.toString() === id && !c.revoked
+  );
+  if (!credential) {
+    return null;
+  }
+
+  credential.revoked = true;
+  credential.revokedAt = new Date();
+  credential.revokedBy = revokedBy;
+
+  if (this.activeFingerprintCredentialCount() === 0) {
+    this.biometricMethods = this.biometricMethods.filter((m: string) => m !== 'fingerprint');
+  }
+
+  return credential;
+};
+
 // Static methods
 studentSchema.statics.findByStudentId = function(studentId: string) {
   return this.findOne({ studentId: studentId.toUpperCase() });
 };
 
 studentSchema.statics.findActiveStudents = function() {
-  return this.find({ isActive: true }).select('-faceDescriptor -faceImage');
+  return this.find({ isActive: true }).select('-faceDescriptor -faceTemplates -faceImage');
 };
 
 export default mongoose.model<IStudent>('Student', studentSchema);
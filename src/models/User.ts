@@ -0,0 +1,89 @@
+import mongoose, { Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+import { IUser } from '../types';
+
+const userSchema = new Schema<IUser>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    minlength: [2, 'Name must be at least 2 characters'],
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  password: {
+    type: String,
+    required: [true, 'Password is required'],
+    minlength: [8, 'Password must be at least 8 characters'],
+    select: false
+  },
+  // Staff roles only; kiosks sign requests with a registered device secret instead
+  role: {
+    type: String,
+    enum: {
+      values: ['admin', 'teacher'],
+      message: 'Role must be one of: admin, teacher'
+    },
+    required: [true, 'Role is required']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  tokenVersion: {
+    type: Number,
+    default: 0
+  },
+  lastLoginAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_doc, ret) => {
+      delete ret.password;
+      return ret;
+    }
+  },
+  toObject: { virtuals: true }
+});
+
+// Indexes for performance
+userSchema.index({ role: 1 });
+userSchema.index({ isActive: 1 });
+
+// Pre-save middleware
+userSchema.pre('save', async function(next) {
+  if (!this.isModified('password')) {
+    return next();
+  }
+
+  try {
+    const salt = await bcrypt.genSalt(12);
+    this.password = await bcrypt.hash(this.password, salt);
+
+    // Changing the password invalidates every refresh token issued so far
+    if (!this.isNew) {
+      this.tokenVersion += 1;
+    }
+
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+// Instance methods
+userSchema.methods.comparePassword = function(candidatePassword: string): Promise<boolean> {
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+export default mongoose.model<IUser>('User', userSchema);
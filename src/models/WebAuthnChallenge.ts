@@ -0,0 +1,80 @@
+import mongoose, { Schema } from 'mongoose';
+import { IVerifiedRegistration, IWebAuthnChallenge } from '../types';
+
+const verifiedRegistrationSchema = new Schema<IVerifiedRegistration>({
+  credentialId: {
+    type: String,
+    required: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  algorithm: {
+    type: Number,
+    required: true
+  },
+  counter: {
+    type: Number,
+    default: 0
+  },
+  attestationFormat: {
+    type: String,
+    required: true
+  },
+  aaguid: {
+    type: String
+  },
+  userVerified: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+const webAuthnChallengeSchema = new Schema<IWebAuthnChallenge>({
+  challenge: {
+    type: String,
+    required: [true, 'Challenge is required'],
+    unique: true
+  },
+  type: {
+    type: String,
+    enum: ['registration', 'authentication'],
+    required: [true, 'Challenge type is required']
+  },
+  userHandle: {
+    type: String
+  },
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student'
+  },
+  device: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device'
+  },
+  createdBy: {
+    type: String,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date
+  },
+  registration: {
+    type: verifiedRegistrationSchema
+  },
+  registrationConsumedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB removes challenges once they expire
+webAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IWebAuthnChallenge>('WebAuthnChallenge', webAuthnChallengeSchema);
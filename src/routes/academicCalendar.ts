@@ -0,0 +1,165 @@
+import express from 'express';
+import {
+  getCalendars,
+  createCalendar,
+  updateCalendar,
+  deleteCalendar,
+  addHoliday,
+  removeHoliday,
+  addWorkingDay,
+  removeWorkingDay,
+  getCalendarDays
+} from '../controllers/academicCalendarController';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation middleware
+const weeklyOffsValidation = (field: string) => [
+  body(field)
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage('Weekly offs must be an array of weekdays'),
+  body(`${field}.*`)
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Weekly offs must be between 0 (Sunday) and 6 (Saturday)')
+    .toInt()
+];
+
+const termsValidation = [
+  body('terms')
+    .optional()
+    .isArray()
+    .withMessage('Terms must be an array'),
+  body('terms.*.name')
+    .notEmpty()
+    .withMessage('Term name is required'),
+  body('terms.*.startDate')
+    .isISO8601()
+    .withMessage('Term start date must be a valid ISO 8601 date'),
+  body('terms.*.endDate')
+    .isISO8601()
+    .withMessage('Term end date must be a valid ISO 8601 date')
+];
+
+const courseWeeklyOffsValidation = [
+  body('courseWeeklyOffs')
+    .optional()
+    .isArray()
+    .withMessage('Course weekly offs must be an array'),
+  body('courseWeeklyOffs.*.course')
+    .notEmpty()
+    .withMessage('Course is required'),
+  ...weeklyOffsValidation('courseWeeklyOffs.*.weeklyOffs')
+];
+
+const createCalendarValidation = [
+  body('name')
+    .notEmpty()
+    .withMessage('Calendar name is required')
+    .isLength({ max: 100 })
+    .withMessage('Calendar name cannot exceed 100 characters'),
+  body('startDate')
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  body('endDate')
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+  ...weeklyOffsValidation('weeklyOffs'),
+  ...courseWeeklyOffsValidation,
+  ...termsValidation
+];
+
+const updateCalendarValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid calendar ID'),
+  body('name')
+    .optional()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Calendar name must be between 1 and 100 characters'),
+  body('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  ...weeklyOffsValidation('weeklyOffs'),
+  ...courseWeeklyOffsValidation,
+  ...termsValidation
+];
+
+const calendarIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid calendar ID')
+];
+
+const calendarDayValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid calendar ID'),
+  body('date')
+    .isISO8601()
+    .withMessage('Date must be a valid ISO 8601 date'),
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('courses')
+    .optional()
+    .isArray()
+    .withMessage('Courses must be an array')
+];
+
+const calendarDayIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid calendar ID'),
+  param('dayId')
+    .isMongoId()
+    .withMessage('Invalid day ID')
+];
+
+const calendarDaysValidation = [
+  query('startDate')
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('endDate')
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+    .custom((endDate, { req }) => {
+      const days = (new Date(endDate).getTime() - new Date(req.query?.startDate).getTime()) / (1000 * 60 * 60 * 24);
+      return days >= 0 && days <= 366;
+    })
+    .withMessage('Date range must be between 0 and 366 days')
+];
+
+// Calendar is visible to staff, managed by admins
+router.use(authenticate, authorize('admin', 'teacher'));
+
+// Routes
+router.get('/', getCalendars);
+router.get('/days', calendarDaysValidation, validateRequest, getCalendarDays);
+router.post('/', authorize('admin'), createCalendarValidation, validateRequest, createCalendar);
+router.put('/:id', authorize('admin'), updateCalendarValidation, validateRequest, updateCalendar);
+router.delete('/:id', authorize('admin'), calendarIdValidation, validateRequest, deleteCalendar);
+router.post('/:id/holidays', authorize('admin'), calendarDayValidation, validateRequest, addHoliday);
+router.delete('/:id/holidays/:dayId', authorize('admin'), calendarDayIdValidation, validateRequest, removeHoliday);
+router.post('/:id/working-days', authorize('admin'), calendarDayValidation, validateRequest, addWorkingDay);
+router.delete('/:id/working-days/:dayId', authorize('admin'), calendarDayIdValidation, validateRequest, removeWorkingDay);
+
+export default router;
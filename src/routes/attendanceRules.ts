@@ -0,0 +1,117 @@
+import express from 'express';
+import {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule
+} from '../controllers/attendanceRuleController';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validation middleware
+const createRuleValidation = [
+  body('name')
+    .notEmpty()
+    .withMessage('Rule name is required')
+    .isLength({ max: 100 })
+    .withMessage('Rule name cannot exceed 100 characters'),
+  body('course')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Course must be a string'),
+  body('location')
+    .optional({ values: 'null' })
+    .isLength({ max: 100 })
+    .withMessage('Location cannot exceed 100 characters'),
+  body('startTime')
+    .matches(TIME_PATTERN)
+    .withMessage('Start time must be in HH:mm format'),
+  body('graceMinutes')
+    .optional()
+    .isInt({ min: 0, max: 240 })
+    .withMessage('Grace period must be between 0 and 240 minutes')
+    .toInt(),
+  body('halfDayAfter')
+    .optional({ values: 'null' })
+    .matches(TIME_PATTERN)
+    .withMessage('Half-day cutoff must be in HH:mm format')
+    .custom((halfDayAfter, { req }) => halfDayAfter > req.body.startTime)
+    .withMessage('Half-day cutoff must be after the start time'),
+  body('minimumHours')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0, max: 24 })
+    .withMessage('Minimum hours must be between 0 and 24')
+    .toFloat(),
+  body('autoCheckoutTime')
+    .optional({ values: 'null' })
+    .matches(TIME_PATTERN)
+    .withMessage('Auto checkout time must be in HH:mm format')
+    .custom((autoCheckoutTime, { req }) => autoCheckoutTime > req.body.startTime)
+    .withMessage('Auto checkout time must be after the start time')
+];
+
+const updateRuleValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid rule ID'),
+  body('name')
+    .optional()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Rule name must be between 1 and 100 characters'),
+  body('course')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Course must be a string'),
+  body('location')
+    .optional({ values: 'null' })
+    .isLength({ max: 100 })
+    .withMessage('Location cannot exceed 100 characters'),
+  body('startTime')
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage('Start time must be in HH:mm format'),
+  body('graceMinutes')
+    .optional()
+    .isInt({ min: 0, max: 240 })
+    .withMessage('Grace period must be between 0 and 240 minutes')
+    .toInt(),
+  body('halfDayAfter')
+    .optional({ values: 'null' })
+    .matches(TIME_PATTERN)
+    .withMessage('Half-day cutoff must be in HH:mm format'),
+  body('minimumHours')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0, max: 24 })
+    .withMessage('Minimum hours must be between 0 and 24')
+    .toFloat(),
+  body('autoCheckoutTime')
+    .optional({ values: 'null' })
+    .matches(TIME_PATTERN)
+    .withMessage('Auto checkout time must be in HH:mm format'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+const ruleIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid rule ID')
+];
+
+// Rules are visible to staff, managed by admins
+router.use(authenticate, authorize('admin', 'teacher'));
+
+// Routes
+router.get('/', getRules);
+router.post('/', authorize('admin'), createRuleValidation, validateRequest, createRule);
+router.put('/:id', authorize('admin'), updateRuleValidation, validateRequest, updateRule);
+router.delete('/:id', authorize('admin'), ruleIdValidation, validateRequest, deleteRule);
+
+export default router;
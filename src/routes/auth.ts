@@ -0,0 +1,98 @@
+import express from 'express';
+import {
+  login,
+  refreshToken,
+  logout,
+  getCurrentUser,
+  createUser,
+  getUsers,
+  updateUser
+} from '../controllers/authController';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation middleware
+const loginValidation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required')
+];
+
+const refreshTokenValidation = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .withMessage('Refresh token must be a string')
+];
+
+const createUserValidation = [
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+  body('password')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters'),
+  // Kiosks authenticate as registered devices, not as users, so there is no kiosk role
+  body('role')
+    .isIn(['admin', 'teacher'])
+    .withMessage('Role must be one of: admin, teacher')
+];
+
+const updateUserValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('name')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('password')
+    .optional()
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters'),
+  body('role')
+    .optional()
+    .isIn(['admin', 'teacher'])
+    .withMessage('Role must be one of: admin, teacher'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+    .toBoolean()
+];
+
+const listUsersValidation = [
+  query('role')
+    .optional()
+    .isIn(['admin', 'teacher'])
+    .withMessage('Role must be one of: admin, teacher')
+];
+
+// Public Routes
+router.post('/login', loginValidation, validateRequest, login);
+router.post('/refresh', refreshTokenValidation, validateRequest, refreshToken);
+
+// Authenticated Routes
+router.post('/logout', authenticate, logout);
+router.get('/me', authenticate, getCurrentUser);
+
+// User Management Routes (admin only)
+router.get('/users', authenticate, authorize('admin'), listUsersValidation, validateRequest, getUsers);
+router.post('/users', authenticate, authorize('admin'), createUserValidation, validateRequest, createUser);
+router.put('/users/:id', authenticate, authorize('admin'), updateUserValidation, validateRequest, updateUser);
+
+export default router;
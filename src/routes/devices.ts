@@ -0,0 +1,61 @@
+import express from 'express';
+import {
+  registerDevice,
+  getDevices,
+  updateDevice,
+  rotateDeviceKey
+} from '../controllers/deviceController';
+import { body, param } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation middleware
+const registerDeviceValidation = [
+  body('name')
+    .notEmpty()
+    .withMessage('Device name is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Device name must be between 2 and 100 characters'),
+  body('location')
+    .notEmpty()
+    .withMessage('Location is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Location must be between 2 and 100 characters')
+];
+
+const updateDeviceValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid device ID'),
+  body('name')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Device name must be between 2 and 100 characters'),
+  body('location')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Location must be between 2 and 100 characters'),
+  body('isEnabled')
+    .optional()
+    .isBoolean()
+    .withMessage('isEnabled must be a boolean')
+];
+
+const deviceIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid device ID')
+];
+
+// Device management is admin only
+router.use(authenticate, authorize('admin'));
+
+// Routes
+router.get('/', getDevices);
+router.post('/', registerDeviceValidation, validateRequest, registerDevice);
+router.put('/:id', updateDeviceValidation, validateRequest, updateDevice);
+router.post('/:id/rotate-key', deviceIdValidation, validateRequest, rotateDeviceKey);
+
+export default router;
@@ -1,7 +1,11 @@
 import express from 'express';
 import { enrollStudent, markAttendance, getAttendanceStats, getStudentAttendance, checkLoginStatus, getAbsentStudents } from '../controllers/faceRecognitionController';
 import { body, param, query } from 'express-validator';
-import { validateRequest } from '../middleware/validation';
+import { validateRequest, faceDetectorValidation } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { authenticateDevice } from '../middleware/deviceAuth';
+import { rejectWhenFaceWorkersBusy } from '../middleware/faceWorkerBackpressure';
+import { LivenessService } from '../services/livenessService';
 
 const router = express.Router();
 
@@ -29,18 +33,50 @@ const enrollValidation = [
     .isLength({ min: 2, max: 100 })
     .withMessage('Course must be between 2 and 100 characters'),
   body('faceImage')
+    .if(body('fingerprintRegistrationId').not().exists())
     .notEmpty()
-    .withMessage('Face image is required')
+    .withMessage('Face image is required when no fingerprint is registered'),
+  body('faceImage')
+    .optional()
     .matches(/^data:image\/(jpeg|jpg|png);base64,/)
-    .withMessage('Face image must be a valid base64 encoded image')
+    .withMessage('Face image must be a valid base64 encoded image'),
+  body('fingerprintRegistrationId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid fingerprint registration ID'),
+  body('fingerprintLabel')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Fingerprint label must be between 1 and 50 characters'),
+  body('allowDuplicateFace')
+    .optional()
+    .isBoolean()
+    .withMessage('allowDuplicateFace must be a boolean')
+    .toBoolean(),
+  ...faceDetectorValidation
 ];
 
 const markAttendanceValidation = [
   body('faceImage')
+    .if(body('frames').not().exists())
     .notEmpty()
-    .withMessage('Face image is required')
+    .withMessage('Face image is required when no frames are provided'),
+  body('faceImage')
+    .optional()
     .matches(/^data:image\/(jpeg|jpg|png);base64,/)
     .withMessage('Face image must be a valid base64 encoded image'),
+  body('frames')
+    .optional()
+    .isArray({ min: LivenessService.minFrames, max: LivenessService.maxFrames })
+    .withMessage(`Frames must be an array of ${LivenessService.minFrames} to ${LivenessService.maxFrames} images`),
+  body('frames.*')
+    .matches(/^data:image\/(jpeg|jpg|png);base64,/)
+    .withMessage('Each frame must be a valid base64 encoded image'),
+  body('session')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid class session ID'),
   body('location')
     .optional()
     .isLength({ min: 2, max: 100 })
@@ -52,7 +88,8 @@ const markAttendanceValidation = [
   body('action')
     .optional()
     .isIn(['auto', 'login', 'logout'])
-    .withMessage('Action must be one of: auto, login, logout')
+    .withMessage('Action must be one of: auto, login, logout'),
+  ...faceDetectorValidation
 ];
 
 const checkStatusValidation = [
@@ -60,7 +97,8 @@ const checkStatusValidation = [
     .notEmpty()
     .withMessage('Face image is required')
     .matches(/^data:image\/(jpeg|jpg|png);base64,/)
-    .withMessage('Face image must be a valid base64 encoded image')
+    .withMessage('Face image must be a valid base64 encoded image'),
+  ...faceDetectorValidation
 ];
 
 const studentAttendanceValidation = [
@@ -79,12 +117,14 @@ const studentAttendanceValidation = [
     .withMessage('End date must be a valid ISO 8601 date')
 ];
 
-// Routes
-router.post('/enroll', enrollValidation, validateRequest, enrollStudent);
-router.post('/mark-attendance', markAttendanceValidation, validateRequest, markAttendance);
-router.post('/check-status', checkStatusValidation, validateRequest, checkLoginStatus);
-router.get('/stats', getAttendanceStats);
-router.get('/absent-students', getAbsentStudents);
-router.get('/student/:studentId', studentAttendanceValidation, validateRequest, getStudentAttendance);
+// Kiosk Routes (signed by a registered device)
+router.post('/mark-attendance', authenticateDevice, rejectWhenFaceWorkersBusy, markAttendanceValidation, validateRequest, markAttendance);
+router.post('/check-status', authenticateDevice, rejectWhenFaceWorkersBusy, checkStatusValidation, validateRequest, checkLoginStatus);
+
+// Staff Routes
+router.post('/enroll', authenticate, authorize('admin', 'teacher'), rejectWhenFaceWorkersBusy, enrollValidation, validateRequest, enrollStudent);
+router.get('/stats', authenticate, authorize('admin', 'teacher'), getAttendanceStats);
+router.get('/absent-students', authenticate, authorize('admin', 'teacher'), getAbsentStudents);
+router.get('/student/:studentId', authenticate, authorize('admin', 'teacher'), studentAttendanceValidation, validateRequest, getStudentAttendance);
 
 export default router;
@@ -2,10 +2,14 @@ import express from 'express';
 import { 
   generateChallenge, 
   markAttendanceWithFingerprint, 
-  checkLoginStatusWithFingerprint 
+  checkLoginStatusWithFingerprint,
+  getRegistrationOptions,
+  verifyRegistration
 } from '../controllers/fingerprintController';
 import { body } from 'express-validator';
 import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { authenticateDevice } from '../middleware/deviceAuth';
 
 const router = express.Router();
 
@@ -31,6 +35,28 @@ const fingerprintDataValidation = [
     .optional()
     .isString()
     .withMessage('Signature must be a string'),
+  body('fingerprintData.userHandle')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('User handle must be a string')
+];
+
+// Marking attendance requires a complete signed assertion
+const fingerprintAssertionValidation = [
+  ...fingerprintDataValidation,
+  body('fingerprintData.authenticatorData')
+    .notEmpty()
+    .withMessage('Authenticator data is required'),
+  body('fingerprintData.clientDataJSON')
+    .notEmpty()
+    .withMessage('Client data JSON is required'),
+  body('fingerprintData.signature')
+    .notEmpty()
+    .withMessage('Signature is required'),
+  body('session')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid class session ID'),
   body('location')
     .optional()
     .isLength({ min: 2, max: 100 })
@@ -45,10 +71,55 @@ const fingerprintDataValidation = [
     .withMessage('Action must be one of: auto, login, logout')
 ];
 
-// Routes
-router.get('/challenge', generateChallenge);
-router.post('/mark-attendance', fingerprintDataValidation, validateRequest, markAttendanceWithFingerprint);
-router.post('/check-status', fingerprintDataValidation, validateRequest, checkLoginStatusWithFingerprint);
+const registrationOptionsValidation = [
+  body('student')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  body('name')
+    .if(body('student').not().exists())
+    .notEmpty()
+    .withMessage('Name is required when registering for a new student')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters')
+];
+
+const registrationVerifyValidation = [
+  body('registrationId')
+    .isMongoId()
+    .withMessage('Invalid registration ID'),
+  body('credential.id')
+    .notEmpty()
+    .withMessage('Credential ID is required')
+    .isString()
+    .withMessage('Credential ID must be a string'),
+  body('credential.rawId')
+    .optional()
+    .isString()
+    .withMessage('Raw credential ID must be a string'),
+  body('credential.type')
+    .equals('public-key')
+    .withMessage('Credential type must be public-key'),
+  body('credential.response.clientDataJSON')
+    .notEmpty()
+    .withMessage('Client data JSON is required')
+    .isString()
+    .withMessage('Client data JSON must be a string'),
+  body('credential.response.attestationObject')
+    .notEmpty()
+    .withMessage('Attestation object is required')
+    .isString()
+    .withMessage('Attestation object must be a string')
+];
+
+// Registration happens at the enrollment desk (staff session)
+router.post('/register/options', authenticate, authorize('admin', 'teacher'), registrationOptionsValidation, validateRequest, getRegistrationOptions);
+router.post('/register/verify', authenticate, authorize('admin', 'teacher'), registrationVerifyValidation, validateRequest, verifyRegistration);
+
+// Attendance routes are called by registered kiosk devices
+router.get('/challenge', authenticateDevice, generateChallenge);
+router.post('/mark-attendance', authenticateDevice, fingerprintAssertionValidation, validateRequest, markAttendanceWithFingerprint);
+router.post('/check-status', authenticateDevice, fingerprintDataValidation, validateRequest, checkLoginStatusWithFingerprint);
 
 export default router;
 
@@ -0,0 +1,84 @@
+import express from 'express';
+import {
+  getLeaves,
+  submitLeave,
+  approveLeave,
+  rejectLeave
+} from '../controllers/leaveController';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { LEAVE_STATUSES, LEAVE_TYPES } from '../models/Leave';
+
+const router = express.Router();
+
+// Validation middleware
+const listLeavesValidation = [
+  query('student')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  query('status')
+    .optional()
+    .isIn(LEAVE_STATUSES)
+    .withMessage(`Status must be one of: ${LEAVE_STATUSES.join(', ')}`),
+  query('type')
+    .optional()
+    .isIn(LEAVE_TYPES)
+    .withMessage(`Leave type must be one of: ${LEAVE_TYPES.join(', ')}`),
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];
+
+const submitLeaveValidation = [
+  body('student')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  body('startDate')
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  body('endDate')
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+    .custom((endDate, { req }) => new Date(endDate).setHours(0, 0, 0, 0) >= new Date(req.body.startDate).setHours(0, 0, 0, 0))
+    .withMessage('End date must not be before the start date'),
+  body('type')
+    .isIn(LEAVE_TYPES)
+    .withMessage(`Leave type must be one of: ${LEAVE_TYPES.join(', ')}`),
+  body('reason')
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  body('attachmentUrl')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Attachment must be a valid http(s) URL')
+];
+
+const reviewLeaveValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid leave ID'),
+  body('note')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Review note cannot exceed 500 characters')
+];
+
+// Staff record leave for students; only admins decide on it
+router.use(authenticate, authorize('admin', 'teacher'));
+
+// Routes
+router.get('/', listLeavesValidation, validateRequest, getLeaves);
+router.post('/', submitLeaveValidation, validateRequest, submitLeave);
+router.patch('/:id/approve', authorize('admin'), reviewLeaveValidation, validateRequest, approveLeave);
+router.patch('/:id/reject', authorize('admin'), reviewLeaveValidation, validateRequest, rejectLeave);
+
+export default router;
@@ -0,0 +1,37 @@
+import express from 'express';
+import {
+  getRollCalls,
+  closeRollCall
+} from '../controllers/rollCallController';
+import { body, query } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation middleware
+const listRollCallsValidation = [
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];
+
+const closeRollCallValidation = [
+  body('date')
+    .isISO8601()
+    .withMessage('Date must be a valid ISO 8601 date')
+];
+
+// Staff can see which registers are closed; only admins close them by hand
+router.use(authenticate, authorize('admin', 'teacher'));
+
+// Routes
+router.get('/', listRollCallsValidation, validateRequest, getRollCalls);
+router.post('/', authorize('admin'), closeRollCallValidation, validateRequest, closeRollCall);
+
+export default router;
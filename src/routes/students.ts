@@ -4,13 +4,23 @@ import {
   getStudentById,
   updateStudent,
   updateStudentBiometrics,
+  getFaceTemplates,
+  addFaceTemplate,
+  deleteFaceTemplate,
+  getFingerprintCredentials,
+  revokeFingerprintCredential,
   toggleStudentStatus,
   getStudentAttendanceCalendar,
+  createManualAttendance,
+  createBulkManualAttendance,
   updateAttendanceRecord,
   deleteAttendanceRecord
 } from '../controllers/studentController';
 import { body, param, query } from 'express-validator';
-import { validateRequest } from '../middleware/validation';
+import { validateRequest, faceDetectorValidation } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { rejectWhenFaceWorkersBusy } from '../middleware/faceWorkerBackpressure';
+import { ATTENDANCE_STATUSES, ATTENDED_STATUSES } from '../models/Attendance';
 
 const router = express.Router();
 
@@ -48,10 +58,56 @@ const updateBiometricsValidation = [
     .optional()
     .matches(/^data:image\/(jpeg|jpg|png);base64,/)
     .withMessage('Face image must be a valid base64 encoded image'),
-  body('fingerprintData')
+  body('fingerprintRegistrationId')
     .optional()
-    .isObject()
-    .withMessage('Fingerprint data must be an object')
+    .isMongoId()
+    .withMessage('Invalid fingerprint registration ID'),
+  body('fingerprintLabel')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Fingerprint label must be between 1 and 50 characters'),
+  body('allowDuplicateFace')
+    .optional()
+    .isBoolean()
+    .withMessage('allowDuplicateFace must be a boolean')
+    .toBoolean(),
+  ...faceDetectorValidation
+];
+
+const addFaceTemplateValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  body('faceImage')
+    .notEmpty()
+    .withMessage('Face image is required')
+    .matches(/^data:image\/(jpeg|jpg|png);base64,/)
+    .withMessage('Face image must be a valid base64 encoded image'),
+  body('allowDuplicateFace')
+    .optional()
+    .isBoolean()
+    .withMessage('allowDuplicateFace must be a boolean')
+    .toBoolean(),
+  ...faceDetectorValidation
+];
+
+const faceTemplateIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  param('templateId')
+    .isMongoId()
+    .withMessage('Invalid face template ID')
+];
+
+const fingerprintCredentialIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  param('credentialId')
+    .isMongoId()
+    .withMessage('Invalid fingerprint credential ID')
 ];
 
 const studentIdValidation = [
@@ -80,8 +136,8 @@ const updateAttendanceValidation = [
     .withMessage('Invalid attendance ID'),
   body('status')
     .optional()
-    .isIn(['present', 'absent'])
-    .withMessage('Status must be either present or absent'),
+    .isIn(ATTENDANCE_STATUSES)
+    .withMessage(`Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`),
   body('timeIn')
     .optional()
     .isISO8601()
@@ -94,29 +150,103 @@ const updateAttendanceValidation = [
     .optional()
     .isLength({ min: 2, max: 100 })
     .withMessage('Location must be between 2 and 100 characters'),
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters')
+];
+
+// Absence is written by the roll call, so manual entries only record attendance
+const manualEntryValidation = [
+  body('timeIn')
+    .optional()
+    .isISO8601()
+    .withMessage('Time in must be a valid ISO 8601 date')
+    .custom(timeIn => new Date(timeIn) <= new Date())
+    .withMessage('Time in cannot be in the future'),
+  body('status')
+    .optional()
+    .isIn(ATTENDED_STATUSES)
+    .withMessage(`Status must be one of: ${ATTENDED_STATUSES.join(', ')}`),
+  body('session')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid session ID'),
+  body('location')
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage('Location cannot exceed 100 characters'),
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required for manual attendance')
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
   body('notes')
     .optional()
     .isLength({ max: 500 })
     .withMessage('Notes cannot exceed 500 characters')
 ];
 
+const manualAttendanceValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  ...manualEntryValidation,
+  body('timeOut')
+    .optional()
+    .isISO8601()
+    .withMessage('Time out must be a valid ISO 8601 date')
+    .custom((timeOut, { req }) => new Date(timeOut) > (req.body.timeIn ? new Date(req.body.timeIn) : new Date()))
+    .withMessage('Time out must be after time in')
+];
+
+const bulkManualAttendanceValidation = [
+  body('course')
+    .notEmpty()
+    .withMessage('Course is required'),
+  body('students')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Students must be a non-empty array'),
+  body('students.*')
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  ...manualEntryValidation
+];
+
 const attendanceIdValidation = [
   param('id')
     .isMongoId()
     .withMessage('Invalid attendance ID')
 ];
 
+// Student management is staff only
+router.use(authenticate, authorize('admin', 'teacher'));
+
 // Student Routes
 router.get('/', getAllStudents);
 router.get('/:id', studentIdValidation, validateRequest, getStudentById);
-router.put('/:id', updateStudentValidation, validateRequest, updateStudent);
-router.put('/:id/biometrics', updateBiometricsValidation, validateRequest, updateStudentBiometrics);
-router.patch('/:id/status', studentIdValidation, validateRequest, toggleStudentStatus);
+router.put('/:id', authorize('admin'), updateStudentValidation, validateRequest, updateStudent);
+router.put('/:id/biometrics', authorize('admin'), rejectWhenFaceWorkersBusy, updateBiometricsValidation, validateRequest, updateStudentBiometrics);
+router.get('/:id/face-templates', studentIdValidation, validateRequest, getFaceTemplates);
+router.post('/:id/face-templates', authorize('admin'), rejectWhenFaceWorkersBusy, addFaceTemplateValidation, validateRequest, addFaceTemplate);
+router.delete('/:id/face-templates/:templateId', authorize('admin'), faceTemplateIdValidation, validateRequest, deleteFaceTemplate);
+router.get('/:id/fingerprint-credentials', studentIdValidation, validateRequest, getFingerprintCredentials);
+router.patch('/:id/fingerprint-credentials/:credentialId/revoke', authorize('admin'), fingerprintCredentialIdValidation, validateRequest, revokeFingerprintCredential);
+router.patch('/:id/status', authorize('admin'), studentIdValidation, validateRequest, toggleStudentStatus);
 router.get('/:id/calendar', calendarValidation, validateRequest, getStudentAttendanceCalendar);
 
 // Attendance Record Routes
+router.post('/attendance/bulk', bulkManualAttendanceValidation, validateRequest, createBulkManualAttendance);
+router.post('/:id/attendance', manualAttendanceValidation, validateRequest, createManualAttendance);
 router.put('/attendance/:id', updateAttendanceValidation, validateRequest, updateAttendanceRecord);
-router.delete('/attendance/:id', attendanceIdValidation, validateRequest, deleteAttendanceRecord);
+router.delete('/attendance/:id', authorize('admin'), attendanceIdValidation, validateRequest, deleteAttendanceRecord);
 
 export default router;
 
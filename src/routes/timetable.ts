@@ -0,0 +1,122 @@
+import express from 'express';
+import {
+  getSessions,
+  createSession,
+  updateSession,
+  deleteSession,
+  getSubjectAttendanceReport
+} from '../controllers/timetableController';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validation middleware
+const createSessionValidation = [
+  body('course')
+    .notEmpty()
+    .withMessage('Course is required'),
+  body('subject')
+    .notEmpty()
+    .withMessage('Subject is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Subject must be between 2 and 100 characters'),
+  body('teacher')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid teacher ID'),
+  body('weekday')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Weekday must be between 0 (Sunday) and 6 (Saturday)')
+    .toInt(),
+  body('startTime')
+    .matches(TIME_PATTERN)
+    .withMessage('Start time must be in HH:mm format'),
+  body('endTime')
+    .matches(TIME_PATTERN)
+    .withMessage('End time must be in HH:mm format')
+    .custom((endTime, { req }) => endTime > req.body.startTime)
+    .withMessage('End time must be after start time'),
+  body('room')
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage('Room cannot exceed 100 characters')
+];
+
+const updateSessionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid session ID'),
+  body('subject')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Subject must be between 2 and 100 characters'),
+  body('teacher')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Invalid teacher ID'),
+  body('weekday')
+    .optional()
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Weekday must be between 0 (Sunday) and 6 (Saturday)')
+    .toInt(),
+  body('startTime')
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage('Start time must be in HH:mm format'),
+  body('endTime')
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage('End time must be in HH:mm format'),
+  body('room')
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage('Room cannot exceed 100 characters')
+];
+
+const sessionIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid session ID')
+];
+
+const listSessionsValidation = [
+  query('weekday')
+    .optional()
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Weekday must be between 0 (Sunday) and 6 (Saturday)'),
+  query('teacher')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid teacher ID')
+];
+
+const subjectReportValidation = [
+  query('student')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid student ID'),
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];
+
+// Timetable is visible to staff, managed by admins
+router.use(authenticate, authorize('admin', 'teacher'));
+
+// Routes
+router.get('/sessions', listSessionsValidation, validateRequest, getSessions);
+router.post('/sessions', authorize('admin'), createSessionValidation, validateRequest, createSession);
+router.put('/sessions/:id', authorize('admin'), updateSessionValidation, validateRequest, updateSession);
+router.delete('/sessions/:id', authorize('admin'), sessionIdValidation, validateRequest, deleteSession);
+router.get('/reports/subjects', subjectReportValidation, validateRequest, getSubjectAttendanceReport);
+
+export default router;
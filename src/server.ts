@@ -6,15 +6,28 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import { eventService } from './services/eventService';
+import { faceIndex } from './services/faceIndexService';
+import { faceWorkerPool } from './services/faceWorkerPool';
+import { autoCheckout } from './services/autoCheckoutService';
+import { rollCall } from './services/rollCallService';
 import dotenv from 'dotenv';
 
 // Import routes
+import authRoutes from './routes/auth';
+import deviceRoutes from './routes/devices';
 import faceRecognitionRoutes from './routes/faceRecognition';
 import fingerprintRoutes from './routes/fingerprint';
 import studentRoutes from './routes/students';
+import timetableRoutes from './routes/timetable';
+import academicCalendarRoutes from './routes/academicCalendar';
+import attendanceRuleRoutes from './routes/attendanceRules';
+import leaveRoutes from './routes/leaves';
+import rollCallRoutes from './routes/rollCalls';
 
 // Import middleware
 import { initializeFaceAPI } from './middleware/faceRecognition';
+import { AuthService } from './services/authService';
+import { FingerprintService } from './services/fingerprintService';
 import path from 'path';
 
 // Load environment variables
@@ -58,7 +71,7 @@ app.use(cors({
   origin: '*', // Allow all origins
   credentials: false, // Must be false when origin is '*'
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH', 'HEAD'],
-  allowedHeaders: '*', // Allow all headers
+  allowedHeaders: ['*', 'Authorization'], // Allow all headers (Authorization is never covered by the wildcard)
   exposedHeaders: '*', // Expose all headers
   maxAge: 86400, // Cache preflight requests for 24 hours
   preflightContinue: false,
@@ -100,6 +113,9 @@ const connectDB = async (): Promise<void> => {
     
     // Graceful shutdown
     process.on('SIGINT', async () => {
+      autoCheckout.stop();
+      rollCall.stop();
+      await faceWorkerPool.stop();
       await mongoose.connection.close();
       console.log('📴 MongoDB connection closed through app termination');
       process.exit(0);
@@ -125,12 +141,29 @@ const initializeApp = async (): Promise<void> => {
     // Don't exit the process, just log the error
     console.log('⚠️ Continuing without face recognition (models will be loaded on first request)');
   }
+  
+  // Build the in-memory face index and keep it in sync with student changes
+  faceIndex.subscribe();
+  try {
+    await faceIndex.build();
+    console.log('✅ Face index initialized successfully');
+  } catch (error) {
+    console.error('❌ Face index build failed:', error);
+    console.log('⚠️ Continuing without face index (it will be built on first request)');
+  }
 };
 
 // Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/devices', deviceRoutes);
 app.use('/api/face-recognition', faceRecognitionRoutes);
 app.use('/api/fingerprint', fingerprintRoutes);
 app.use('/api/students', studentRoutes);
+app.use('/api/timetable', timetableRoutes);
+app.use('/api/calendar', academicCalendarRoutes);
+app.use('/api/attendance-rules', attendanceRuleRoutes);
+app.use('/api/leaves', leaveRoutes);
+app.use('/api/roll-calls', rollCallRoutes);
 
 // Serve Face API models
 app.use('/models', express.static(path.join(__dirname, '../models')));
@@ -142,7 +175,11 @@ app.get('/api/health', (req, res) => {
     message: 'Server is running',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
-    environment: process.env.NODE_ENV || 'development'
+    environment: process.env.NODE_ENV || 'development',
+    faceIndex: faceIndex.getStats(),
+    faceWorkers: faceWorkerPool.getMetrics(),
+    autoCheckout: autoCheckout.getStatus(),
+    rollCall: rollCall.getStatus()
   });
 });
 
@@ -190,12 +227,25 @@ const PORT = process.env.PORT || 5001;
 
 const startServer = async (): Promise<void> => {
   try {
+    // Validate auth configuration before accepting requests
+    AuthService.validateConfiguration();
+    FingerprintService.validateConfiguration();
+    
     // Connect to database
     await connectDB();
     
+    // Create the initial admin account if configured
+    await AuthService.ensureDefaultAdmin();
+    
     // Initialize face recognition
     await initializeApp();
     
+    // Close attendance records students forgot to log out of
+    autoCheckout.start();
+    
+    // Write absent records for days that are over
+    rollCall.start();
+    
     // Start HTTP server
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,72 @@
+import { AcademicCalendarService } from './academicCalendarService';
+import { IAcademicCalendar } from '../types';
+
+const day = (month: number, date: number) => new Date(2026, month - 1, date);
+
+const calendar = {
+  name: '2026-27',
+  startDate: day(7, 1),
+  endDate: day(12, 31),
+  terms: [{ name: 'Odd semester', startDate: day(7, 1), endDate: day(11, 30) }],
+  weeklyOffs: [0],
+  courseWeeklyOffs: [{ course: 'MBA', weeklyOffs: [0, 6] }],
+  holidays: [
+    { name: 'Diwali', date: day(10, 20), courses: [] },
+    { name: 'Sports meet', date: day(10, 21), endDate: day(10, 23), courses: ['MCA'] }
+  ],
+  workingDays: [
+    { name: 'Make-up day', date: day(10, 18), courses: [] },
+    { name: 'Internal exam', date: day(10, 22), courses: ['MCA'] }
+  ]
+} as unknown as IAcademicCalendar;
+
+const describeDay = (date: Date, course?: string) => AcademicCalendarService.describeDay(date, [calendar], course);
+
+describe('AcademicCalendarService.describeDay', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.CALENDAR_DEFAULT_WEEKLY_OFFS;
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('treats a term weekday as a working day named after the term', () => {
+    expect(describeDay(new Date(2026, 9, 19, 14, 30), 'MCA')).toEqual({ date: '2026-10-19', type: 'working', name: 'Odd semester' });
+  });
+
+  it('applies the calendar weekly offs, or the course weekly offs', () => {
+    expect(describeDay(day(10, 11), 'MCA')).toEqual({ date: '2026-10-11', type: 'weekly-off', name: 'Odd semester' });
+    expect(describeDay(day(10, 10), 'MCA')).toMatchObject({ type: 'working' });
+    expect(describeDay(day(10, 10), 'MBA')).toMatchObject({ type: 'weekly-off' });
+  });
+
+  it('marks holidays for every course or only the listed courses', () => {
+    expect(describeDay(day(10, 20), 'MBA')).toEqual({ date: '2026-10-20', type: 'holiday', name: 'Diwali' });
+    expect(describeDay(day(10, 21), 'MCA')).toEqual({ date: '2026-10-21', type: 'holiday', name: 'Sports meet' });
+    expect(describeDay(day(10, 21), 'MBA')).toMatchObject({ type: 'working' });
+    // Without a course only holidays for everyone apply
+    expect(describeDay(day(10, 21))).toMatchObject({ type: 'working' });
+  });
+
+  it('lets special working days beat holidays and weekly offs', () => {
+    expect(describeDay(day(10, 22), 'MCA')).toEqual({ date: '2026-10-22', type: 'working', name: 'Internal exam' });
+    expect(describeDay(day(10, 23), 'MCA')).toMatchObject({ type: 'holiday', name: 'Sports meet' });
+    expect(describeDay(day(10, 18), 'MBA')).toEqual({ date: '2026-10-18', type: 'working', name: 'Make-up day' });
+  });
+
+  it('treats days inside the calendar but outside every term as vacation', () => {
+    expect(describeDay(day(12, 15), 'MCA')).toEqual({ date: '2026-12-15', type: 'vacation' });
+  });
+
+  it('falls back to the default weekly offs outside every calendar', () => {
+    expect(describeDay(day(6, 28), 'MCA')).toEqual({ date: '2026-06-28', type: 'weekly-off' });
+    expect(describeDay(day(6, 27), 'MCA')).toEqual({ date: '2026-06-27', type: 'working' });
+
+    process.env.CALENDAR_DEFAULT_WEEKLY_OFFS = '0,6';
+    expect(describeDay(day(6, 27), 'MCA')).toEqual({ date: '2026-06-27', type: 'weekly-off' });
+  });
+});
@@ -0,0 +1,119 @@
+import AcademicCalendar from '../models/AcademicCalendar';
+import { CalendarDayInfo, IAcademicCalendar, ICalendarDay } from '../types';
+
+export type CalendarDayResolver = (date: Date, course?: string) => CalendarDayInfo;
+
+/**
+ * Academic Calendar Service
+ * Decides whether a date is a working day for a course, so stats and absence
+ * lists skip weekly offs, holidays and vacations
+ */
+
+export class AcademicCalendarService {
+  // Weekly offs for dates not covered by any academic calendar
+  static get defaultWeeklyOffs(): number[] {
+    return (process.env.CALENDAR_DEFAULT_WEEKLY_OFFS ?? '0')
+      .split(',')
+      .map(day => parseInt(day))
+      .filter(day => day >= 0 && day <= 6);
+  }
+
+  static startOfDay(date: Date): Date {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day;
+  }
+
+  // YYYY-MM-DD in server local time, matching how attendance dates are stored
+  static dayKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Active calendars overlapping a date range
+   */
+  static async getCalendars(from: Date, to: Date): Promise<IAcademicCalendar[]> {
+    return AcademicCalendar.find({
+      isActive: true,
+      startDate: { $lte: to },
+      endDate: { $gte: this.startOfDay(from) }
+    });
+  }
+
+  /**
+   * Classify a single day; special working days beat holidays, holidays beat
+   * vacations and weekly offs
+   */
+  static describeDay(date: Date, calendars: IAcademicCalendar[], course?: string): CalendarDayInfo {
+    const day = this.startOfDay(date);
+    const key = this.dayKey(day);
+    const time = day.getTime();
+
+    const calendar = calendars.find(c => c.startDate.getTime() <= time && time <= c.endDate.getTime());
+
+    if (!calendar) {
+      return { date: key, type: this.defaultWeeklyOffs.includes(day.getDay()) ? 'weekly-off' : 'working' };
+    }
+
+    const appliesTo = (entry: ICalendarDay) => entry.courses.length === 0 || (!!course && entry.courses.includes(course));
+    const covers = (entry: ICalendarDay) =>
+      entry.date.getTime() <= time && time <= (entry.endDate || entry.date).getTime();
+
+    const workingDay = calendar.workingDays.find(entry => covers(entry) && appliesTo(entry));
+    if (workingDay) {
+      return { date: key, type: 'working', name: workingDay.name };
+    }
+
+    const holiday = calendar.holidays.find(entry => covers(entry) && appliesTo(entry));
+    if (holiday) {
+      return { date: key, type: 'holiday', name: holiday.name };
+    }
+
+    const term = calendar.terms.find(t => t.startDate.getTime() <= time && time <= t.endDate.getTime());
+    if (calendar.terms.length > 0 && !term) {
+      return { date: key, type: 'vacation' };
+    }
+
+    const courseOffs = course ? calendar.courseWeeklyOffs.find(entry => entry.course === course) : undefined;
+    const weeklyOffs = courseOffs ? courseOffs.weeklyOffs : calendar.weeklyOffs;
+    if (weeklyOffs.includes(day.getDay())) {
+      return { date: key, type: 'weekly-off', name: term?.name };
+    }
+
+    return { date: key, type: 'working', name: term?.name };
+  }
+
+  /**
+   * Load the calendars for a range once and classify any day inside it
+   */
+  static async loadResolver(from: Date, to: Date): Promise<CalendarDayResolver> {
+    const calendars = await this.getCalendars(from, to);
+    return (date: Date, course?: string) => this.describeDay(date, calendars, course);
+  }
+
+  /**
+   * Classify every day between two dates (inclusive)
+   */
+  static async describeRange(from: Date, to: Date, course?: string): Promise<CalendarDayInfo[]> {
+    const resolve = await this.loadResolver(from, to);
+    const days: CalendarDayInfo[] = [];
+
+    const current = this.startOfDay(from);
+    const end = this.startOfDay(to);
+    while (current <= end) {
+      days.push(resolve(current, course));
+      current.setDate(current.getDate() + 1);
+    }
+
+    return days;
+  }
+
+  static async countWorkingDays(from: Date, to: Date, course?: string): Promise<number> {
+    const days = await this.describeRange(from, to, course);
+    return days.filter(day => day.type === 'working').length;
+  }
+}
+
+export default AcademicCalendarService;
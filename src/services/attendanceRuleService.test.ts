@@ -0,0 +1,101 @@
+import AttendanceRule from '../models/AttendanceRule';
+import { AttendanceRuleService } from './attendanceRuleService';
+import { AttendanceStatus, IAttendance, IAttendanceRule, IClassSession } from '../types';
+
+const at = (hours: number, minutes: number) => new Date(2026, 9, 19, hours, minutes);
+
+const rule = (overrides: Partial<IAttendanceRule> = {}) => ({
+  course: null,
+  location: null,
+  startTime: '09:00',
+  graceMinutes: 10,
+  halfDayAfter: '11:00',
+  minimumHours: 6,
+  isActive: true,
+  ...overrides
+}) as unknown as IAttendanceRule;
+
+const session = { subject: 'Networks', startTime: '14:00', endTime: '15:00' } as unknown as IClassSession;
+
+// Minimal record: checked in at timeIn and on campus ever since
+const attendance = (status: AttendanceStatus, timeIn = at(9, 0)) => ({
+  status,
+  timeIn,
+  totalDuration: (until: Date) => until.getTime() - timeIn.getTime()
+}) as unknown as IAttendance;
+
+describe('AttendanceRuleService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findRule', () => {
+    it('prefers course rules over location rules over the default rule', async () => {
+      const courseRule = rule({ course: 'MCA', startTime: '08:45' });
+      const rules = [rule({ startTime: '09:30' }), rule({ location: 'Main gate', startTime: '09:15' }), courseRule];
+      jest.spyOn(AttendanceRule, 'find').mockResolvedValue(rules as any);
+
+      expect(await AttendanceRuleService.findRule('MCA', 'Main gate')).toBe(courseRule);
+      expect(AttendanceRule.find).toHaveBeenCalledWith({
+        isActive: true,
+        course: { $in: ['MCA', null] },
+        location: { $in: ['Main gate', null] }
+      });
+    });
+
+    it('returns null when no rule applies', async () => {
+      jest.spyOn(AttendanceRule, 'find').mockResolvedValue([]);
+
+      expect(await AttendanceRuleService.findRule('MCA')).toBeNull();
+    });
+  });
+
+  describe('classifyLogin', () => {
+    it('marks everyone present without a rule', () => {
+      expect(AttendanceRuleService.classifyLogin(null, at(12, 0))).toBe('present');
+    });
+
+    it('is late only after the grace period', () => {
+      expect(AttendanceRuleService.classifyLogin(rule(), at(9, 10))).toBe('present');
+      expect(AttendanceRuleService.classifyLogin(rule(), at(9, 11))).toBe('late');
+    });
+
+    it('is a half day from the half-day cutoff', () => {
+      expect(AttendanceRuleService.classifyLogin(rule(), at(10, 59))).toBe('late');
+      expect(AttendanceRuleService.classifyLogin(rule(), at(11, 0))).toBe('half-day');
+      expect(AttendanceRuleService.classifyLogin(rule({ halfDayAfter: undefined }), at(13, 0))).toBe('late');
+    });
+
+    it('measures lateness from the start of a class period', () => {
+      expect(AttendanceRuleService.classifyLogin(rule(), at(14, 5), session)).toBe('present');
+      expect(AttendanceRuleService.classifyLogin(rule(), at(14, 11), session)).toBe('late');
+    });
+  });
+
+  describe('classifyLogout', () => {
+    it('keeps the status without a rule, for half days and absences', () => {
+      expect(AttendanceRuleService.classifyLogout(null, attendance('late'), at(10, 0))).toBe('late');
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('half-day', at(11, 30)), at(12, 0))).toBe('half-day');
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('absent'), at(12, 0))).toBe('absent');
+    });
+
+    it('is an early leave before the minimum hours on campus', () => {
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('present'), at(14, 59))).toBe('early-leave');
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('late', at(9, 20)), at(15, 20))).toBe('late');
+      expect(AttendanceRuleService.classifyLogout(rule({ minimumHours: undefined }), attendance('present'), at(10, 0))).toBe('present');
+    });
+
+    it('is an early leave before the end of a class period', () => {
+      const inClass = attendance('present', at(14, 0));
+
+      expect(AttendanceRuleService.classifyLogout(rule(), inClass, at(14, 49), session)).toBe('early-leave');
+      expect(AttendanceRuleService.classifyLogout(rule(), inClass, at(14, 50), session)).toBe('present');
+    });
+
+    it('restores the arrival status once the student has stayed long enough', () => {
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('early-leave', at(9, 5)), at(16, 0))).toBe('present');
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('early-leave', at(9, 30)), at(16, 0))).toBe('late');
+      expect(AttendanceRuleService.classifyLogout(rule(), attendance('early-leave', at(9, 30)), at(12, 0))).toBe('early-leave');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import AttendanceRule from '../models/AttendanceRule';
+import { AttendanceStatus, IAttendance, IAttendanceRule, IClassSession } from '../types';
+import { TimetableService } from './timetableService';
+
+/**
+ * Attendance Rule Service
+ * Classifies attendance as present, late, half-day or early-leave using the
+ * rule configured for the student's course and the kiosk location
+ */
+
+export class AttendanceRuleService {
+  /**
+   * Most specific active rule for a course and location, or null when none applies
+   */
+  static async findRule(course: string, location?: string): Promise<IAttendanceRule | null> {
+    const rules = await AttendanceRule.find({
+      isActive: true,
+      course: { $in: [course, null] },
+      location: { $in: [location || null, null] }
+    });
+
+    const specificity = (rule: IAttendanceRule) => (rule.course ? 2 : 0) + (rule.location ? 1 : 0);
+    return rules.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+  }
+
+  private static minutesOfDay(date: Date): number {
+    return date.getHours() * 60 + date.getMinutes();
+  }
+
+  /**
+   * Status for a new record at login time
+   * Class periods are late after the period's own start; half-day cutoffs only apply to whole-day attendance
+   */
+  static classifyLogin(rule: IAttendanceRule | null, timeIn: Date, session?: IClassSession | null): AttendanceStatus {
+    if (!rule) {
+      return 'present';
+    }
+
+    const minutes = this.minutesOfDay(timeIn);
+
+    if (session) {
+      return minutes > TimetableService.toMinutes(session.startTime) + rule.graceMinutes ? 'late' : 'present';
+    }
+
+    if (rule.halfDayAfter && minutes >= TimetableService.toMinutes(rule.halfDayAfter)) {
+      return 'half-day';
+    }
+
+    return minutes > TimetableService.toMinutes(rule.startTime) + rule.graceMinutes ? 'late' : 'present';
+  }
+
+  /**
+   * Status for a record at logout time
+   * Leaving before the minimum hours on campus (or before a class period ends) is an
+   * early leave; half days stay half days. Re-evaluated on every logout, so a student
+   * who comes back after leaving early can recover their arrival status
+   */
+  static classifyLogout(
+    rule: IAttendanceRule | null,
+    attendance: IAttendance,
+    timeOut: Date,
+    session?: IClassSession | null
+  ): AttendanceStatus {
+    if (!rule || attendance.status === 'half-day' || attendance.status === 'absent' || !attendance.timeIn) {
+      return attendance.status;
+    }
+
+    const arrivalStatus = attendance.status === 'early-leave'
+      ? this.classifyLogin(rule, attendance.timeIn, session)
+      : attendance.status;
+
+    if (session) {
+      const leftEarly = this.minutesOfDay(timeOut) < TimetableService.toMinutes(session.endTime) - rule.graceMinutes;
+      return leftEarly ? 'early-leave' : arrivalStatus;
+    }
+
+    if (rule.minimumHours) {
+      const hoursOnCampus = attendance.totalDuration(timeOut) / (1000 * 60 * 60);
+      if (hoursOnCampus < rule.minimumHours) {
+        return 'early-leave';
+      }
+    }
+
+    return arrivalStatus;
+  }
+}
+
+export default AttendanceRuleService;
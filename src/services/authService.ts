@@ -0,0 +1,145 @@
+import jwt from 'jsonwebtoken';
+import User from '../models/User';
+import { AuthTokenPayload, AuthTokensResponse, AuthenticatedUser, IUser } from '../types';
+
+/**
+ * Auth Service
+ * Issues and verifies JWT access/refresh tokens for staff users
+ */
+
+const DEV_ACCESS_SECRET = 'dev-access-secret-change-me';
+const DEV_REFRESH_SECRET = 'dev-refresh-secret-change-me';
+
+export class AuthService {
+  private static get accessSecret(): string {
+    return process.env.JWT_SECRET || DEV_ACCESS_SECRET;
+  }
+
+  private static get refreshSecret(): string {
+    return process.env.JWT_REFRESH_SECRET || DEV_REFRESH_SECRET;
+  }
+
+  static get accessTokenExpiresIn(): string {
+    return process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+  }
+
+  static get refreshTokenExpiresIn(): string {
+    return process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+  }
+
+  /**
+   * Validate JWT configuration at startup
+   * Refuses to run in production with the built-in development secret
+   */
+  static validateConfiguration(): void {
+    if (process.env.JWT_SECRET && process.env.JWT_REFRESH_SECRET) {
+      return;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET and JWT_REFRESH_SECRET must be set in production');
+    }
+
+    console.warn('⚠️ JWT secrets not set - using development secrets, do not use in production');
+  }
+
+  /**
+   * Map a user document to the public user shape attached to requests
+   */
+  static toAuthenticatedUser(user: IUser): AuthenticatedUser {
+    return {
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role
+    };
+  }
+
+  /**
+   * Issue a new access + refresh token pair for a user
+   */
+  static issueTokens(user: IUser): AuthTokensResponse {
+    const basePayload = {
+      sub: user._id.toString(),
+      role: user.role,
+      tokenVersion: user.tokenVersion
+    };
+
+    const accessToken = jwt.sign(
+      { ...basePayload, type: 'access' },
+      this.accessSecret,
+      { expiresIn: this.accessTokenExpiresIn as jwt.SignOptions['expiresIn'] }
+    );
+
+    const refreshToken = jwt.sign(
+      { ...basePayload, type: 'refresh' },
+      this.refreshSecret,
+      { expiresIn: this.refreshTokenExpiresIn as jwt.SignOptions['expiresIn'] }
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTokenExpiresIn,
+      user: this.toAuthenticatedUser(user)
+    };
+  }
+
+  /**
+   * Verify an access token
+   * @throws if the token is invalid, expired or not an access token
+   */
+  static verifyAccessToken(token: string): AuthTokenPayload {
+    const payload = jwt.verify(token, this.accessSecret) as AuthTokenPayload;
+
+    if (payload.type !== 'access') {
+      throw new Error('Invalid token type');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Verify a refresh token
+   * @throws if the token is invalid, expired or not a refresh token
+   */
+  static verifyRefreshToken(token: string): AuthTokenPayload {
+    const payload = jwt.verify(token, this.refreshSecret) as AuthTokenPayload;
+
+    if (payload.type !== 'refresh') {
+      throw new Error('Invalid token type');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Create the initial admin account from ADMIN_EMAIL / ADMIN_PASSWORD
+   * Only runs when no admin exists yet, so it is safe to call on every startup
+   */
+  static async ensureDefaultAdmin(): Promise<void> {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+
+    const adminExists = await User.exists({ role: 'admin' });
+    if (adminExists) {
+      return;
+    }
+
+    if (!email || !password) {
+      console.warn('⚠️ No admin user exists - set ADMIN_EMAIL and ADMIN_PASSWORD to create one');
+      return;
+    }
+
+    await User.create({
+      name: process.env.ADMIN_NAME || 'Administrator',
+      email,
+      password,
+      role: 'admin'
+    });
+
+    console.log(`👤 Default admin user created: ${email}`);
+  }
+}
+
+export default AuthService;
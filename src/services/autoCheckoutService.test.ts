@@ -0,0 +1,121 @@
+import Attendance from '../models/Attendance';
+import ClassSession from '../models/ClassSession';
+import { AttendanceRuleService } from './attendanceRuleService';
+import { autoCheckout } from './autoCheckoutService';
+import { eventService } from './eventService';
+
+const at = (date: number, hours: number, minutes = 0) => new Date(2026, 9, date, hours, minutes);
+
+const student = { studentId: 'MCA001', name: 'Asha Rao', phone: '9876543210', course: 'MCA' };
+
+// Open record with the fields auto checkout reads; checkOut records the cutoff it was given
+const openRecord = (timeIn: Date, overrides: Record<string, unknown> = {}) => {
+  const record: any = {
+    student,
+    date: new Date(timeIn.getFullYear(), timeIn.getMonth(), timeIn.getDate()),
+    location: 'Main gate',
+    timeIn,
+    openInterval: () => ({ timeIn: record.timeIn }),
+    checkOut: jest.fn((timeOut: Date) => {
+      record.timeOut = timeOut;
+    }),
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides
+  };
+  return record;
+};
+
+describe('autoCheckout.run', () => {
+  const env = process.env;
+
+  const runWith = (records: any[], now: Date, sessions: any[] = []) => {
+    jest.spyOn(Attendance, 'find').mockReturnValue({ populate: jest.fn().mockResolvedValue(records) } as any);
+    jest.spyOn(ClassSession, 'find').mockResolvedValue(sessions);
+    return autoCheckout.run(now);
+  };
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.AUTO_CHECKOUT_TIME;
+    delete process.env.AUTO_CHECKOUT_NOTIFY;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(AttendanceRuleService, 'findRule').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  it('closes whole-day records at the default cutoff once it has passed', async () => {
+    const record = openRecord(at(19, 9));
+
+    expect(await runWith([record], at(19, 19, 59))).toBe(0);
+    expect(record.checkOut).not.toHaveBeenCalled();
+
+    expect(await runWith([record], at(19, 20, 15))).toBe(1);
+    expect(record.checkOut).toHaveBeenCalledWith(at(19, 20), { auto: true });
+    expect(record.save).toHaveBeenCalled();
+  });
+
+  it('uses the configured default cutoff', async () => {
+    process.env.AUTO_CHECKOUT_TIME = '18:30';
+    const record = openRecord(at(19, 9));
+
+    await runWith([record], at(19, 19));
+
+    expect(record.timeOut).toEqual(at(19, 18, 30));
+  });
+
+  it('prefers the cutoff of the attendance rule and looks each rule up once', async () => {
+    jest.mocked(AttendanceRuleService.findRule).mockResolvedValue({ autoCheckoutTime: '17:00' } as any);
+    const records = [openRecord(at(19, 9)), openRecord(at(19, 10))];
+
+    await runWith(records, at(19, 17, 30));
+
+    expect(records.map(record => record.timeOut)).toEqual([at(19, 17), at(19, 17)]);
+    expect(AttendanceRuleService.findRule).toHaveBeenCalledTimes(1);
+    expect(AttendanceRuleService.findRule).toHaveBeenCalledWith('MCA', 'Main gate');
+  });
+
+  it('closes class period records when the period ends', async () => {
+    const record = openRecord(at(19, 14), { session: 'networks', subject: 'Networks' });
+    const sessions = [{ _id: 'networks', startTime: '14:00', endTime: '15:00' }];
+
+    await runWith([record], at(19, 15, 5), sessions);
+
+    expect(record.timeOut).toEqual(at(19, 15));
+    expect(AttendanceRuleService.findRule).not.toHaveBeenCalled();
+  });
+
+  it('keeps a record opened after the cutoff open until the end of that day', async () => {
+    const record = openRecord(at(19, 21));
+
+    expect(await runWith([record], at(19, 22))).toBe(0);
+
+    expect(await runWith([record], at(20, 0, 10))).toBe(1);
+    expect(record.timeOut).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+  });
+
+  it('measures the cutoff against the interval still open', async () => {
+    const record = openRecord(at(19, 9), { openInterval: () => ({ timeIn: at(19, 20, 30) }) });
+
+    expect(await runWith([record], at(19, 21))).toBe(0);
+  });
+
+  it('notifies the student and the admins when configured', async () => {
+    process.env.AUTO_CHECKOUT_NOTIFY = 'both';
+    const emitAutoCheckout = jest.spyOn(eventService, 'emitAutoCheckout').mockImplementation(() => undefined);
+    const emitSummary = jest.spyOn(eventService, 'emitAutoCheckoutSummary').mockImplementation(() => undefined);
+
+    await runWith([openRecord(at(19, 9))], at(19, 21));
+
+    expect(emitAutoCheckout).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: 'MCA001',
+      timeIn: at(19, 9),
+      timeOut: at(19, 20),
+      whatsappLink: expect.stringContaining('wa.me')
+    }));
+    expect(emitSummary).toHaveBeenCalledWith(expect.objectContaining({ closed: 1 }));
+  });
+});
@@ -0,0 +1,199 @@
+import Attendance from '../models/Attendance';
+import ClassSession from '../models/ClassSession';
+import { AttendanceRuleService } from './attendanceRuleService';
+import { TimetableService } from './timetableService';
+import { eventService } from './eventService';
+import { generateAutoCheckoutMessage, generateWhatsAppLink } from '../utils/whatsapp';
+import { AutoCheckoutNotify, AutoCheckoutStatus, IAttendanceRule, IClassSession, IStudent } from '../types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Auto Checkout Service
+ * Periodically closes attendance records that were never logged out, so
+ * students do not stay "logged in" forever and durations can be reported.
+ *
+ * Whole-day records close at the auto checkout time of the matching attendance
+ * rule (falling back to AUTO_CHECKOUT_TIME); class period records close when the
+ * period ends. Closed records are flagged `autoCheckout` to tell them apart from
+ * a real logout.
+ */
+class AutoCheckoutService {
+  private static instance: AutoCheckoutService;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt: Date | null = null;
+  private lastClosed = 0;
+
+  private constructor() {}
+
+  public static getInstance(): AutoCheckoutService {
+    if (!AutoCheckoutService.instance) {
+      AutoCheckoutService.instance = new AutoCheckoutService();
+    }
+    return AutoCheckoutService.instance;
+  }
+
+  public get enabled(): boolean {
+    return process.env.AUTO_CHECKOUT_ENABLED !== 'false';
+  }
+
+  public get intervalMinutes(): number {
+    return Math.max(1, parseInt(process.env.AUTO_CHECKOUT_INTERVAL_MINUTES || '15'));
+  }
+
+  // Cutoff for whole-day records when no rule sets one
+  public get defaultCutoff(): string {
+    const configured = process.env.AUTO_CHECKOUT_TIME || '20:00';
+    return TIME_PATTERN.test(configured) ? configured : '20:00';
+  }
+
+  public get notify(): AutoCheckoutNotify {
+    const configured = process.env.AUTO_CHECKOUT_NOTIFY as AutoCheckoutNotify;
+    return ['none', 'student', 'admin', 'both'].includes(configured) ? configured : 'none';
+  }
+
+  /**
+   * Run once now and then every AUTO_CHECKOUT_INTERVAL_MINUTES
+   */
+  public start(): void {
+    if (this.timer || !this.enabled) {
+      if (!this.enabled) {
+        console.log('⚠️ Automatic checkout is disabled');
+      }
+      return;
+    }
+
+    this.timer = setInterval(() => this.runSafely(), this.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+    this.runSafely();
+
+    console.log(`🌙 Automatic checkout scheduled every ${this.intervalMinutes} minutes (default cutoff ${this.defaultCutoff})`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public getStatus(): AutoCheckoutStatus {
+    return {
+      enabled: this.enabled,
+      intervalMinutes: this.intervalMinutes,
+      defaultCutoff: this.defaultCutoff,
+      lastRunAt: this.lastRunAt,
+      lastClosed: this.lastClosed
+    };
+  }
+
+  private async runSafely(): Promise<void> {
+    try {
+      await this.run();
+    } catch (error: any) {
+      eventService.emitError({
+        error: error.message,
+        context: 'auto-checkout',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Close every open record whose cutoff has passed; returns the number closed
+   */
+  public async run(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const openRecords = await Attendance.find({
+        timeOut: null,
+        status: { $ne: 'absent' },
+        date: { $lte: now }
+      }).populate('student', 'studentId name phone course');
+
+      const sessionIds = openRecords.filter(record => record.session).map(record => record.session!);
+      const sessions = new Map<string, IClassSession>(
+        (await ClassSession.find({ _id: { $in: sessionIds } })).map(session => [session._id.toString(), session])
+      );
+      const rules = new Map<string, IAttendanceRule | null>();
+
+      const closed: { studentId: string; name: string; location: string }[] = [];
+
+      for (const record of openRecords) {
+        const student = record.student as unknown as IStudent | null;
+        if (!student) continue;
+
+        let cutoffTime = this.defaultCutoff;
+        const session = record.session ? sessions.get(record.session) : undefined;
+
+        if (session) {
+          cutoffTime = session.endTime;
+        } else {
+          const ruleKey = `${student.course}|${record.location}`;
+          if (!rules.has(ruleKey)) {
+            rules.set(ruleKey, await AttendanceRuleService.findRule(student.course, record.location));
+          }
+          cutoffTime = rules.get(ruleKey)?.autoCheckoutTime || cutoffTime;
+        }
+
+        const cutoff = new Date(record.date);
+        cutoff.setHours(0, TimetableService.toMinutes(cutoffTime), 0, 0);
+
+        // Came in after the cutoff: keep the interval open until the end of that day
+        const openSince = record.openInterval()?.timeIn || record.timeIn;
+        if (!openSince) continue;
+        if (cutoff <= openSince) {
+          cutoff.setHours(23, 59, 59, 999);
+        }
+
+        if (cutoff > now) continue;
+
+        record.checkOut(cutoff, { auto: true });
+        await record.save();
+
+        closed.push({ studentId: student.studentId, name: student.name, location: record.location });
+
+        if (this.notify === 'student' || this.notify === 'both') {
+          const message = generateAutoCheckoutMessage(student.name, openSince, cutoff);
+          eventService.emitAutoCheckout({
+            studentId: student.studentId,
+            name: student.name,
+            timeIn: openSince,
+            timeOut: cutoff,
+            location: record.location,
+            subject: record.subject,
+            whatsappLink: student.phone ? generateWhatsAppLink(student.phone, message) : undefined
+          });
+        }
+      }
+
+      if (closed.length > 0) {
+        console.log(`🌙 Automatically checked out ${closed.length} open attendance records`);
+
+        if (this.notify === 'admin' || this.notify === 'both') {
+          eventService.emitAutoCheckoutSummary({
+            closed: closed.length,
+            students: closed,
+            timestamp: now
+          });
+        }
+      }
+
+      this.lastRunAt = now;
+      this.lastClosed = closed.length;
+
+      return closed.length;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const autoCheckout = AutoCheckoutService.getInstance();
+export default autoCheckout;
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import DeviceNonce from '../models/DeviceNonce';
+
+/**
+ * Device Service
+ * Handles kiosk device secrets and HMAC request signatures
+ *
+ * A kiosk signs every request with its secret key:
+ *   X-Device-Id:        the device's id
+ *   X-Device-Timestamp: milliseconds since epoch
+ *   X-Device-Nonce:     random value, never reused by the device
+ *   X-Device-Signature: hex HMAC-SHA256 of `${timestamp}.${nonce}.${METHOD}.${originalUrl}.${sha256(rawBody)}`
+ *
+ * A nonce is accepted once, so a captured request cannot be replayed while its
+ * timestamp is still fresh
+ */
+
+export class DeviceService {
+  /**
+   * Maximum allowed difference between the kiosk clock and the server clock
+   */
+  static get maxClockSkewMs(): number {
+    return parseInt(process.env.DEVICE_SIGNATURE_MAX_SKEW_MS || '300000'); // 5 minutes
+  }
+
+  /**
+   * Generate a new random device secret
+   * @returns Hex encoded 256-bit secret
+   */
+  static generateSecretKey(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Build the canonical string that is signed by the kiosk
+   */
+  static buildSigningPayload(timestamp: string, nonce: string, method: string, url: string, rawBody?: Buffer): string {
+    const bodyHash = crypto
+      .createHash('sha256')
+      .update(rawBody || Buffer.alloc(0))
+      .digest('hex');
+
+    return `${timestamp}.${nonce}.${method.toUpperCase()}.${url}.${bodyHash}`;
+  }
+
+  /**
+   * Compute the request signature for a device secret
+   * @returns Hex encoded HMAC-SHA256 signature
+   */
+  static signRequest(
+    secretKey: string,
+    timestamp: string,
+    nonce: string,
+    method: string,
+    url: string,
+    rawBody?: Buffer
+  ): string {
+    return crypto
+      .createHmac('sha256', secretKey)
+      .update(this.buildSigningPayload(timestamp, nonce, method, url, rawBody))
+      .digest('hex');
+  }
+
+  /**
+   * Check that the request timestamp is within the allowed clock skew
+   */
+  static isTimestampFresh(timestamp: string, now: number = Date.now()): boolean {
+    const requestTime = parseInt(timestamp, 10);
+
+    if (isNaN(requestTime)) {
+      return false;
+    }
+
+    return Math.abs(now - requestTime) <= this.maxClockSkewMs;
+  }
+
+  /**
+   * Verify a request signature using a constant time comparison
+   */
+  static verifySignature(
+    secretKey: string,
+    signature: string,
+    timestamp: string,
+    nonce: string,
+    method: string,
+    url: string,
+    rawBody?: Buffer
+  ): boolean {
+    const expected = Buffer.from(this.signRequest(secretKey, timestamp, nonce, method, url, rawBody), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+
+    if (expected.length !== provided.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Record a nonce as used; returns false when the device already used it
+   * Nonces only need keeping while a request carrying them could still be fresh
+   */
+  static async consumeNonce(deviceId: string, nonce: string, timestamp: string): Promise<boolean> {
+    const expiresAt = new Date(parseInt(timestamp, 10) + this.maxClockSkewMs);
+
+    try {
+      await DeviceNonce.create({ device: deviceId, nonce, expiresAt });
+      return true;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export default DeviceService;
@@ -0,0 +1,83 @@
+import Student from '../models/Student';
+import { DuplicateFaceService } from './duplicateFaceService';
+import { faceIndex } from './faceIndexService';
+
+const descriptor = (value: number): number[] => new Array(128).fill(value);
+
+// Descriptors differing by d in every dimension are sqrt(128) * d apart
+const probeAt = (distance: number) => new Float32Array(descriptor(distance / Math.sqrt(128)));
+
+describe('DuplicateFaceService', () => {
+  const env = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...env };
+    delete process.env.FACE_DUPLICATE_THRESHOLD;
+    delete process.env.FACE_DUPLICATE_MODE;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    jest.spyOn(Student, 'find').mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue([{
+          _id: 'existing',
+          studentId: 'MCA001',
+          name: 'Asha Rao',
+          isActive: false,
+          faceTemplates: [{ _id: 'template', descriptor: descriptor(0) }]
+        }])
+      })
+    } as any);
+    await faceIndex.build();
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  describe('check', () => {
+    it('rejects a face closer than the duplicate threshold, even of an inactive student', async () => {
+      const result = await DuplicateFaceService.check(probeAt(0.4));
+
+      expect(result).toEqual({
+        action: 'reject',
+        conflict: { _id: 'existing', studentId: 'MCA001', name: 'Asha Rao', isActive: false, distance: 0.4 }
+      });
+    });
+
+    it('allows a face that would only match at the recognition threshold', async () => {
+      expect(await DuplicateFaceService.check(probeAt(0.5))).toEqual({ action: 'allow' });
+    });
+
+    it('uses the configured threshold', async () => {
+      process.env.FACE_DUPLICATE_THRESHOLD = '0.55';
+
+      expect(await DuplicateFaceService.check(probeAt(0.5))).toMatchObject({ action: 'reject' });
+    });
+
+    it('flags instead of rejecting in flag mode or on an admin override', async () => {
+      expect(await DuplicateFaceService.check(probeAt(0.4), undefined, true)).toMatchObject({ action: 'flag' });
+
+      process.env.FACE_DUPLICATE_MODE = 'flag';
+      expect(await DuplicateFaceService.check(probeAt(0.4))).toMatchObject({ action: 'flag' });
+    });
+
+    it('ignores the templates of the student being updated', async () => {
+      expect(await DuplicateFaceService.check(probeAt(0.1), 'existing')).toEqual({ action: 'allow' });
+    });
+  });
+
+  describe('recordFlag', () => {
+    it('records only flagged conflicts on the student', async () => {
+      const student = { duplicateFaceFlags: [] as any[] } as any;
+
+      DuplicateFaceService.recordFlag(student, await DuplicateFaceService.check(probeAt(0.4)));
+      expect(student.duplicateFaceFlags).toHaveLength(0);
+
+      DuplicateFaceService.recordFlag(student, await DuplicateFaceService.check(probeAt(0.4), undefined, true));
+      expect(student.duplicateFaceFlags).toEqual([
+        expect.objectContaining({ student: 'existing', studentId: 'MCA001', name: 'Asha Rao', distance: 0.4 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { faceIndex } from './faceIndexService';
+import { DuplicateFaceCheckResult, DuplicateFaceMode, IStudent } from '../types';
+
+/**
+ * Duplicate Face Service
+ * Detects when a face being enrolled already belongs to another student,
+ * so the same person cannot be enrolled twice under different names
+ */
+
+export class DuplicateFaceService {
+  /**
+   * Distance below which two faces are treated as the same person
+   * Stricter than the 0.6 recognition threshold to avoid false conflicts
+   */
+  static get threshold(): number {
+    return parseFloat(process.env.FACE_DUPLICATE_THRESHOLD || '0.45');
+  }
+
+  /**
+   * reject: refuse the enrollment, flag: allow it but record the conflict
+   */
+  static get mode(): DuplicateFaceMode {
+    return process.env.FACE_DUPLICATE_MODE === 'flag' ? 'flag' : 'reject';
+  }
+
+  /**
+   * Compare a descriptor against every enrolled student, including inactive ones
+   * @param descriptor - Descriptor of the new capture
+   * @param excludeStudentId - Student being updated (its own templates are not conflicts)
+   * @param allowOverride - Admin confirmed the enrollment despite a conflict
+   */
+  static async check(
+    descriptor: Float32Array,
+    excludeStudentId?: string,
+    allowOverride: boolean = false
+  ): Promise<DuplicateFaceCheckResult> {
+    const match = await faceIndex.findBestMatch(descriptor, this.threshold, {
+      includeInactive: true,
+      excludeStudentId
+    });
+
+    if (!match) {
+      return { action: 'allow' };
+    }
+
+    console.log(`⚠️ Possible duplicate face: ${match.name} (${match.studentIdString}) at distance ${match.distance.toFixed(3)}`);
+
+    return {
+      action: this.mode === 'flag' || allowOverride ? 'flag' : 'reject',
+      conflict: {
+        _id: match.studentId,
+        studentId: match.studentIdString,
+        name: match.name,
+        isActive: match.isActive,
+        distance: Math.round(match.distance * 1000) / 1000
+      }
+    };
+  }
+
+  /**
+   * Record an allowed conflict on the student so an admin can review it later
+   */
+  static recordFlag(student: IStudent, duplicateCheck: DuplicateFaceCheckResult): void {
+    if (duplicateCheck.action !== 'flag' || !duplicateCheck.conflict) {
+      return;
+    }
+
+    student.duplicateFaceFlags.push({
+      student: duplicateCheck.conflict._id,
+      studentId: duplicateCheck.conflict.studentId,
+      name: duplicateCheck.conflict.name,
+      distance: duplicateCheck.conflict.distance,
+      detectedAt: new Date()
+    });
+  }
+}
+
+export default DuplicateFaceService;
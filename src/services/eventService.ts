@@ -23,12 +23,36 @@ class EventService extends EventEmitter {
     confidence: number;
     status: string;
     action?: 'login' | 'logout';
+    subject?: string;
   }): void {
     this.emit('attendance:marked', data);
     console.log('📊 Attendance marked event emitted:', data);
   }
 
+  public emitAutoCheckout(data: {
+    studentId: string;
+    name: string;
+    timeIn: Date;
+    timeOut: Date;
+    location: string;
+    subject?: string;
+    whatsappLink?: string;
+  }): void {
+    this.emit('attendance:auto-checkout', data);
+    console.log('🌙 Auto checkout event emitted:', data);
+  }
+
+  public emitAutoCheckoutSummary(data: {
+    closed: number;
+    students: { studentId: string; name: string; location: string }[];
+    timestamp: Date;
+  }): void {
+    this.emit('attendance:auto-checkout-summary', data);
+    console.log(`🌙 Auto checkout summary event emitted: ${data.closed} records closed`);
+  }
+
   public emitStudentEnrolled(data: {
+    id: string;
     studentId: string;
     name: string;
     email: string;
@@ -38,6 +62,30 @@ class EventService extends EventEmitter {
     console.log('👤 Student enrolled event emitted:', data);
   }
 
+  public emitStudentUpdated(data: {
+    id: string;
+    studentId: string;
+    change: 'profile' | 'biometrics' | 'status';
+  }): void {
+    this.emit('student:updated', data);
+    console.log('✏️ Student updated event emitted:', data);
+  }
+
+  // Security events
+  public emitSecurityAlert(data: {
+    type: 'cloned-authenticator';
+    studentId: string;
+    name: string;
+    credentialId: string;
+    storedCounter: number;
+    receivedCounter: number;
+    deviceName?: string;
+    timestamp: Date;
+  }): void {
+    this.emit('security:alert', data);
+    console.warn('🚨 Security alert event emitted:', data);
+  }
+
   public emitSystemStatus(data: {
     status: 'online' | 'offline' | 'maintenance';
     message: string;
@@ -62,14 +110,26 @@ class EventService extends EventEmitter {
       console.log(`✅ Attendance marked for ${data.name} (${data.studentId})`);
     });
 
+    this.on('attendance:auto-checkout', (data) => {
+      console.log(`🌙 ${data.name} (${data.studentId}) was checked out automatically at ${data.timeOut.toLocaleTimeString()}`);
+    });
+
     this.on('student:enrolled', (data) => {
       console.log(`👤 New student enrolled: ${data.name} (${data.studentId})`);
     });
 
+    this.on('student:updated', (data) => {
+      console.log(`✏️ Student ${data.studentId} updated (${data.change})`);
+    });
+
     this.on('system:status', (data) => {
       console.log(`🔧 System status: ${data.status} - ${data.message}`);
     });
 
+    this.on('security:alert', (data) => {
+      console.warn(`🚨 Security alert (${data.type}) for ${data.name} (${data.studentId}): counter ${data.receivedCounter} <= stored ${data.storedCounter}`);
+    });
+
     this.on('system:error', (data) => {
       console.error(`❌ System error in ${data.context}: ${data.error}`);
     });
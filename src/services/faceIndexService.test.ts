@@ -0,0 +1,89 @@
+import Student from '../models/Student';
+import { faceIndex } from './faceIndexService';
+
+const descriptor = (value: number): number[] => new Array(128).fill(value);
+
+const student = (id: string, value: number, isActive: boolean = true) => ({
+  _id: id,
+  studentId: id.toUpperCase(),
+  name: `Student ${id}`,
+  isActive,
+  faceTemplates: [{ _id: `${id}-template`, descriptor: descriptor(value) }]
+});
+
+// Student.find(...).select(...).lean() resolving to the given students
+const mockFind = (result: Promise<unknown[]>) =>
+  jest.spyOn(Student, 'find').mockReturnValue({
+    select: jest.fn().mockReturnValue({ lean: jest.fn().mockReturnValue(result) })
+  } as any);
+
+const asDocument = (data: ReturnType<typeof student>) => ({ ...data, toObject: () => data }) as any;
+
+describe('FaceIndexService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findBestMatch', () => {
+    beforeEach(async () => {
+      mockFind(Promise.resolve([student('a', 0), student('b', 0.1), student('c', 0.02, false)]));
+      await faceIndex.build();
+    });
+
+    it('returns the nearest template below the threshold', async () => {
+      const match = await faceIndex.findBestMatch(new Float32Array(descriptor(0.09)));
+
+      expect(match).toMatchObject({ studentId: 'b', studentIdString: 'B', templateId: 'b-template', isActive: true });
+      expect(match!.distance).toBeCloseTo(Math.sqrt(128 * 0.01 * 0.01), 5);
+    });
+
+    it('returns null when nothing is closer than the threshold', async () => {
+      // Distance to student b is sqrt(128) * 0.05, about 0.566
+      expect(await faceIndex.findBestMatch(new Float32Array(descriptor(0.15)), 0.5)).toBeNull();
+      expect(await faceIndex.findBestMatch(new Float32Array(descriptor(0.15)), 0.6)).toMatchObject({ studentId: 'b' });
+    });
+
+    it('skips inactive students unless asked to include them', async () => {
+      const probe = new Float32Array(descriptor(0.02));
+
+      expect(await faceIndex.findBestMatch(probe)).toMatchObject({ studentId: 'a' });
+      expect(await faceIndex.findBestMatch(probe, 0.6, { includeInactive: true })).toMatchObject({ studentId: 'c' });
+    });
+
+    it('skips the excluded student', async () => {
+      const probe = new Float32Array(descriptor(0));
+
+      expect(await faceIndex.findBestMatch(probe, 0.6, { excludeStudentId: 'a' })).toBeNull();
+      expect(await faceIndex.findBestMatch(probe, 0.6, { excludeStudentId: 'a', includeInactive: true }))
+        .toMatchObject({ studentId: 'c' });
+    });
+  });
+
+  it('keeps an update made while a build is in flight', async () => {
+    let finishLoad: (students: unknown[]) => void = () => undefined;
+    mockFind(new Promise(resolve => { finishLoad = resolve; }));
+
+    const build = faceIndex.build();
+    // Enrolled after the build read its snapshot
+    faceIndex.updateStudent(asDocument(student('d', 0.3)));
+    finishLoad([student('a', 0)]);
+    await build;
+
+    expect(await faceIndex.findBestMatch(new Float32Array(descriptor(0.3)))).toMatchObject({ studentId: 'd' });
+    expect(faceIndex.getStats()).toMatchObject({ students: 2, templates: 2 });
+  });
+
+  it('applies a deactivation to the index straight away', async () => {
+    mockFind(Promise.resolve([student('a', 0)]));
+    await faceIndex.build();
+
+    faceIndex.updateStudent(asDocument(student('a', 0, false)));
+
+    expect(await faceIndex.findBestMatch(new Float32Array(descriptor(0)))).toBeNull();
+    expect(faceIndex.getActiveStudentCount()).toBe(0);
+  });
+});
@@ -0,0 +1,302 @@
+import Student from '../models/Student';
+import { eventService } from './eventService';
+import { FaceIndexMatch, FaceIndexStats, IStudent } from '../types';
+
+const DESCRIPTOR_LENGTH = 128;
+
+interface IndexedStudent {
+  id: string;
+  studentId: string;
+  name: string;
+  isActive: boolean;
+  templateIds: (string | undefined)[];
+  descriptors: Float32Array; // templateIds.length * 128 values
+}
+
+/**
+ * Face Index Service
+ * Process-wide in-memory index of every enrolled face template, so matching a
+ * probe does not need to load all students from MongoDB on every request.
+ *
+ * Templates are packed into one contiguous Float32Array and scanned with
+ * early-abandoning squared distances, which skips most non-matching templates
+ * after a few dimensions.
+ */
+class FaceIndexService {
+  private static instance: FaceIndexService;
+
+  private students = new Map<string, IndexedStudent>();
+  private subscribed = false;
+  private builtAt: Date | null = null;
+  private buildPromise: Promise<void> | null = null;
+  // Entries changed while a build is in flight, re-applied over its older snapshot
+  private changedDuringBuild: Map<string, IndexedStudent | null> | null = null;
+
+  // Packed search matrix, rebuilt lazily after changes
+  private matrix = new Float32Array(0);
+  private rowOwners: IndexedStudent[] = [];
+  private rowTemplateIds: (string | undefined)[] = [];
+  private dirty = true;
+
+  private constructor() {}
+
+  public static getInstance(): FaceIndexService {
+    if (!FaceIndexService.instance) {
+      FaceIndexService.instance = new FaceIndexService();
+    }
+    return FaceIndexService.instance;
+  }
+
+  /**
+   * Load every student with face templates from MongoDB
+   */
+  public async build(): Promise<void> {
+    if (this.buildPromise) {
+      return this.buildPromise;
+    }
+
+    this.buildPromise = (async () => {
+      const startedAt = Date.now();
+      this.changedDuringBuild = new Map();
+
+      const students = await Student.find({
+        $or: [
+          { 'faceTemplates.0': { $exists: true } },
+          { faceDescriptor: { $exists: true, $ne: [] } }
+        ]
+      }).select('_id studentId name isActive faceDescriptor faceTemplates._id faceTemplates.descriptor').lean();
+
+      const entries = new Map<string, IndexedStudent>();
+      for (const student of students) {
+        const entry = this.toEntry(student);
+        if (entry) {
+          entries.set(entry.id, entry);
+        }
+      }
+
+      this.changedDuringBuild.forEach((entry, id) => {
+        if (entry) {
+          entries.set(id, entry);
+        } else {
+          entries.delete(id);
+        }
+      });
+
+      this.students = entries;
+      this.dirty = true;
+      this.builtAt = new Date();
+
+      const stats = this.getStats();
+      console.log(`🗂️ Face index built: ${stats.students} students, ${stats.templates} templates in ${Date.now() - startedAt}ms`);
+    })();
+
+    try {
+      await this.buildPromise;
+    } finally {
+      this.buildPromise = null;
+      this.changedDuringBuild = null;
+    }
+  }
+
+  /**
+   * Keep the index in sync with enrollment, biometric and status changes
+   */
+  public subscribe(): void {
+    if (this.subscribed) {
+      return;
+    }
+    this.subscribed = true;
+
+    const refresh = (data: { id: string }) => {
+      this.refreshStudent(data.id).catch(error => {
+        console.error(`❌ Failed to refresh face index for student ${data.id}:`, error);
+      });
+    };
+
+    eventService.on('student:enrolled', refresh);
+    eventService.on('student:updated', refresh);
+  }
+
+  public isReady(): boolean {
+    return this.builtAt !== null;
+  }
+
+  /**
+   * Build the index on first use if startup initialization did not complete
+   */
+  public async ensureReady(): Promise<void> {
+    if (!this.isReady()) {
+      await this.build();
+    }
+  }
+
+  /**
+   * Reload a single student from MongoDB and update or remove its entry
+   */
+  public async refreshStudent(id: string): Promise<void> {
+    const student = await Student.findById(id)
+      .select('_id studentId name isActive faceDescriptor faceTemplates._id faceTemplates.descriptor')
+      .lean();
+
+    this.setEntry(id, student ? this.toEntry(student) : null);
+  }
+
+  /**
+   * Update a student's entry from the document just saved, so a duplicate
+   * check made straight after an enrollment already sees it
+   */
+  public updateStudent(student: IStudent): void {
+    this.setEntry(student._id.toString(), this.toEntry(student.toObject()));
+  }
+
+  /**
+   * Find the closest student to a probe descriptor
+   * Same semantics as findBestMatch: a match requires distance < threshold
+   */
+  public async findBestMatch(
+    probeDescriptor: Float32Array,
+    threshold: number = 0.6,
+    options: { includeInactive?: boolean; excludeStudentId?: string } = {}
+  ): Promise<FaceIndexMatch | null> {
+    await this.ensureReady();
+    this.pack();
+
+    const { includeInactive = false, excludeStudentId } = options;
+    let bestDistanceSq = threshold * threshold;
+    let bestRow = -1;
+
+    for (let row = 0; row < this.rowOwners.length; row++) {
+      const owner = this.rowOwners[row];
+      if ((!includeInactive && !owner.isActive) || owner.id === excludeStudentId) {
+        continue;
+      }
+
+      // Early abandon once the partial distance exceeds the best so far
+      const offset = row * DESCRIPTOR_LENGTH;
+      let distanceSq = 0;
+      for (let i = 0; i < DESCRIPTOR_LENGTH && distanceSq < bestDistanceSq; i++) {
+        const diff = probeDescriptor[i] - this.matrix[offset + i];
+        distanceSq += diff * diff;
+      }
+
+      if (distanceSq < bestDistanceSq) {
+        bestDistanceSq = distanceSq;
+        bestRow = row;
+      }
+    }
+
+    if (bestRow === -1) {
+      console.log(`❌ No match found below threshold ${threshold}`);
+      return null;
+    }
+
+    const owner = this.rowOwners[bestRow];
+    const distance = Math.sqrt(bestDistanceSq);
+
+    console.log(`✅ Best match: ${owner.name} with distance ${distance.toFixed(3)}`);
+
+    return {
+      studentId: owner.id,
+      studentIdString: owner.studentId,
+      name: owner.name,
+      confidence: Math.max(0, 1 - (distance / 1.0)),
+      distance,
+      templateId: this.rowTemplateIds[bestRow],
+      isActive: owner.isActive
+    };
+  }
+
+  public getActiveStudentCount(): number {
+    let count = 0;
+    this.students.forEach(entry => {
+      if (entry.isActive) count++;
+    });
+    return count;
+  }
+
+  public getStats(): FaceIndexStats {
+    let templates = 0;
+    this.students.forEach(entry => {
+      templates += entry.templateIds.length;
+    });
+
+    return {
+      ready: this.isReady(),
+      students: this.students.size,
+      activeStudents: this.getActiveStudentCount(),
+      templates,
+      builtAt: this.builtAt
+    };
+  }
+
+  private setEntry(id: string, entry: IndexedStudent | null): void {
+    this.changedDuringBuild?.set(id, entry);
+
+    if (entry) {
+      this.students.set(id, entry);
+    } else {
+      this.students.delete(id);
+    }
+
+    this.dirty = true;
+  }
+
+  private toEntry(student: any): IndexedStudent | null {
+    const gallery: Array<{ _id?: any; descriptor: number[] }> =
+      student.faceTemplates && student.faceTemplates.length > 0
+        ? student.faceTemplates
+        : student.faceDescriptor && student.faceDescriptor.length === DESCRIPTOR_LENGTH
+          ? [{ descriptor: student.faceDescriptor }]
+          : [];
+
+    const valid = gallery.filter(t => t.descriptor && t.descriptor.length === DESCRIPTOR_LENGTH);
+    if (valid.length === 0) {
+      return null;
+    }
+
+    const descriptors = new Float32Array(valid.length * DESCRIPTOR_LENGTH);
+    valid.forEach((template, i) => descriptors.set(template.descriptor, i * DESCRIPTOR_LENGTH));
+
+    return {
+      id: student._id.toString(),
+      studentId: student.studentId,
+      name: student.name,
+      isActive: student.isActive,
+      templateIds: valid.map(t => t._id?.toString()),
+      descriptors
+    };
+  }
+
+  private pack(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    let rows = 0;
+    this.students.forEach(entry => {
+      rows += entry.templateIds.length;
+    });
+
+    const matrix = new Float32Array(rows * DESCRIPTOR_LENGTH);
+    const owners: IndexedStudent[] = new Array(rows);
+    const templateIds: (string | undefined)[] = new Array(rows);
+
+    let row = 0;
+    this.students.forEach(entry => {
+      matrix.set(entry.descriptors, row * DESCRIPTOR_LENGTH);
+      entry.templateIds.forEach(templateId => {
+        owners[row] = entry;
+        templateIds[row] = templateId;
+        row++;
+      });
+    });
+
+    this.matrix = matrix;
+    this.rowOwners = owners;
+    this.rowTemplateIds = templateIds;
+    this.dirty = false;
+  }
+}
+
+export const faceIndex = FaceIndexService.getInstance();
+export default faceIndex;
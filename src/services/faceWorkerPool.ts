@@ -0,0 +1,328 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { FaceDetectionResult, FaceDetectorOptions, FaceWorkerMessage, FaceWorkerPoolMetrics, FaceWorkerRequest } from '../types';
+
+/**
+ * Thrown when the detection queue is full; callers answer 503 with Retry-After
+ */
+export class FaceWorkerQueueFullError extends Error {
+  public readonly status = 503;
+
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Face recognition is busy. Please try again shortly.');
+    this.name = 'FaceWorkerQueueFullError';
+  }
+}
+
+interface QueuedTask {
+  request: FaceWorkerRequest;
+  enqueuedAt: number;
+  queueTimeout: NodeJS.Timeout | null;
+  resolve: (detections: FaceDetectionResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  task: QueuedTask | null;
+  startedAt: number;
+  timeout: NodeJS.Timeout | null;
+}
+
+/**
+ * Face Worker Pool
+ * Runs tfjs face detection in worker threads so inference does not block the
+ * Express event loop. Tasks wait in a bounded FIFO queue; when it is full new
+ * work is refused instead of piling up behind a burst at the gate.
+ */
+class FaceWorkerPool {
+  private static instance: FaceWorkerPool;
+
+  private workers: PoolWorker[] = [];
+  private queue: QueuedTask[] = [];
+  private nextTaskId = 1;
+  private started = false;
+  private stopping = false;
+
+  private completed = 0;
+  private failed = 0;
+  private rejected = 0;
+  private timedOut = 0;
+  private restarts = 0;
+  private totalWaitMs = 0;
+  private totalRunMs = 0;
+
+  private constructor() {}
+
+  public static getInstance(): FaceWorkerPool {
+    if (!FaceWorkerPool.instance) {
+      FaceWorkerPool.instance = new FaceWorkerPool();
+    }
+    return FaceWorkerPool.instance;
+  }
+
+  /**
+   * Number of worker threads; 0 runs detection inline on the main thread
+   */
+  public get size(): number {
+    const configured = process.env.FACE_WORKER_POOL_SIZE;
+    if (configured !== undefined && configured !== '') {
+      return Math.max(0, parseInt(configured));
+    }
+    return Math.max(1, Math.min(4, os.cpus().length - 1));
+  }
+
+  public get queueLimit(): number {
+    return parseInt(process.env.FACE_WORKER_QUEUE_LIMIT || '50');
+  }
+
+  private get taskTimeoutMs(): number {
+    return parseInt(process.env.FACE_WORKER_TASK_TIMEOUT_MS || '30000');
+  }
+
+  // A task nobody picks up within this time fails instead of hanging its request
+  private get queueTimeoutMs(): number {
+    return parseInt(process.env.FACE_WORKER_QUEUE_TIMEOUT_MS || '30000');
+  }
+
+  public isEnabled(): boolean {
+    return this.size > 0;
+  }
+
+  public isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Spawn the workers and wait until every one has loaded the models
+   */
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    const size = this.size;
+
+    this.stopping = false;
+    await Promise.all(Array.from({ length: size }, () => this.spawn()));
+    this.started = true;
+
+    console.log(`🧵 Face worker pool started: ${size} workers in ${Date.now() - startedAt}ms`);
+  }
+
+  public async stop(): Promise<void> {
+    this.stopping = true;
+    this.started = false;
+
+    this.failQueued(new Error('Face worker pool stopped'));
+
+    await Promise.all(this.workers.map(entry => entry.worker.terminate()));
+    this.workers = [];
+  }
+
+  /**
+   * True when new work would be refused
+   */
+  public isSaturated(): boolean {
+    return this.started && this.queue.length >= this.queueLimit;
+  }
+
+  /**
+   * Count a request refused before it reached the queue
+   */
+  public recordRejection(): void {
+    this.rejected++;
+  }
+
+  /**
+   * Rough time until a queued task would start, used for Retry-After
+   */
+  public estimateRetryAfterSeconds(): number {
+    const averageRunMs = this.completed > 0 ? this.totalRunMs / this.completed : 1000;
+    const workers = Math.max(1, this.workers.length);
+    return Math.max(1, Math.ceil((this.queue.length / workers) * averageRunMs / 1000));
+  }
+
+  /**
+   * Queue a detection; rejects with FaceWorkerQueueFullError when the queue is full
+   */
+  public detect(image: Buffer, detector: Required<FaceDetectorOptions>): Promise<FaceDetectionResult[]> {
+    if (this.queue.length >= this.queueLimit) {
+      this.rejected++;
+      return Promise.reject(new FaceWorkerQueueFullError(this.estimateRetryAfterSeconds()));
+    }
+
+    return new Promise((resolve, reject) => {
+      const task: QueuedTask = {
+        request: { id: this.nextTaskId++, image: new Uint8Array(image), detector },
+        enqueuedAt: Date.now(),
+        queueTimeout: null,
+        resolve,
+        reject
+      };
+
+      task.queueTimeout = setTimeout(() => {
+        this.queue = this.queue.filter(other => other !== task);
+        this.timedOut++;
+        console.error(`❌ Face worker task ${task.request.id} waited ${this.queueTimeoutMs}ms without a worker`);
+        task.reject(new Error('Face detection timed out waiting for a worker'));
+      }, this.queueTimeoutMs);
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  public getMetrics(): FaceWorkerPoolMetrics {
+    return {
+      enabled: this.isEnabled(),
+      size: this.workers.length,
+      readyWorkers: this.workers.filter(entry => entry.ready).length,
+      busyWorkers: this.workers.filter(entry => entry.task !== null).length,
+      queued: this.queue.length,
+      queueLimit: this.queueLimit,
+      completed: this.completed,
+      failed: this.failed,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+      restarts: this.restarts,
+      averageWaitMs: this.completed > 0 ? Math.round(this.totalWaitMs / this.completed) : 0,
+      averageRunMs: this.completed > 0 ? Math.round(this.totalRunMs / this.completed) : 0
+    };
+  }
+
+  private spawn(): Promise<void> {
+    // Under ts-node (development) the worker source has to be compiled on the fly
+    const isTypeScript = path.extname(__filename) === '.ts';
+    const workerPath = path.join(__dirname, '../workers', `faceWorker${isTypeScript ? '.ts' : '.js'}`);
+
+    const worker = new Worker(workerPath, {
+      execArgv: isTypeScript ? ['-r', 'ts-node/register/transpile-only'] : undefined
+    });
+    const entry: PoolWorker = { worker, ready: false, task: null, startedAt: 0, timeout: null };
+    this.workers.push(entry);
+
+    return new Promise((resolve, reject) => {
+      worker.on('message', (message: FaceWorkerMessage) => {
+        switch (message.type) {
+          case 'ready':
+            entry.ready = true;
+            resolve();
+            this.dispatch();
+            break;
+          case 'init-error':
+            reject(new Error(`Face worker failed to load models: ${message.error}`));
+            worker.terminate();
+            break;
+          case 'result':
+            this.finish(entry, null, message.detections);
+            break;
+          case 'error':
+            this.finish(entry, new Error(message.error));
+            break;
+        }
+      });
+
+      worker.on('error', error => {
+        console.error('❌ Face worker error:', error);
+        if (!entry.ready) {
+          reject(error);
+        }
+      });
+
+      worker.on('exit', code => {
+        this.workers = this.workers.filter(other => other !== entry);
+
+        if (entry.task) {
+          this.finish(entry, new Error(`Face worker exited with code ${code}`));
+        }
+
+        // Replace crashed or timed out workers while the pool is running
+        if (entry.ready && !this.stopping) {
+          this.restarts++;
+          console.log(`⚠️ Face worker exited with code ${code}, restarting`);
+          this.spawn().catch(error => {
+            console.error('❌ Failed to restart face worker:', error);
+            // Nothing is left to run the queue, so fail it rather than hang
+            if (this.workers.length === 0) {
+              this.failQueued(new Error('No face workers available'));
+            }
+          });
+        }
+      });
+    });
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (!entry.ready || entry.task) {
+        continue;
+      }
+
+      const task = this.queue.shift()!;
+      if (task.queueTimeout) {
+        clearTimeout(task.queueTimeout);
+        task.queueTimeout = null;
+      }
+      entry.task = task;
+      entry.startedAt = Date.now();
+      this.totalWaitMs += entry.startedAt - task.enqueuedAt;
+
+      // A hung inference is killed; the exit handler restarts the worker
+      entry.timeout = setTimeout(() => {
+        this.timedOut++;
+        console.error(`❌ Face worker task ${task.request.id} timed out after ${this.taskTimeoutMs}ms`);
+        this.workers = this.workers.filter(other => other !== entry);
+        this.finish(entry, new Error('Face detection timed out'));
+        entry.worker.terminate();
+      }, this.taskTimeoutMs);
+
+      entry.worker.postMessage(task.request, [task.request.image.buffer as ArrayBuffer]);
+    }
+  }
+
+  private failQueued(error: Error): void {
+    const pending = [...this.queue];
+    this.queue = [];
+    pending.forEach(task => {
+      if (task.queueTimeout) {
+        clearTimeout(task.queueTimeout);
+      }
+      this.failed++;
+      task.reject(error);
+    });
+  }
+
+  private finish(entry: PoolWorker, error: Error | null, detections?: FaceDetectionResult[]): void {
+    const task = entry.task;
+    if (!task) {
+      return;
+    }
+
+    if (entry.timeout) {
+      clearTimeout(entry.timeout);
+      entry.timeout = null;
+    }
+    entry.task = null;
+
+    if (error) {
+      this.failed++;
+      task.reject(error);
+    } else {
+      this.completed++;
+      this.totalRunMs += Date.now() - entry.startedAt;
+      task.resolve(detections!);
+    }
+
+    this.dispatch();
+  }
+}
+
+export const faceWorkerPool = FaceWorkerPool.getInstance();
+export default faceWorkerPool;
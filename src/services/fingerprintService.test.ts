@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import Student from '../models/Student';
+import WebAuthnChallenge from '../models/WebAuthnChallenge';
+import { FingerprintService } from './fingerprintService';
+import { decodeCbor } from '../utils/cbor';
+import fixtures from './__fixtures__/webauthn.json';
+
+type CredentialFixture = typeof fixtures.credentials.ES256;
+
+const credentials: [string, CredentialFixture][] = Object.entries(fixtures.credentials) as [string, CredentialFixture][];
+const es256 = fixtures.credentials.ES256;
+
+const keyTypes: Record<string, string> = {
+  ES256: 'ec',
+  RS256: 'rsa',
+  PS256: 'rsa',
+  EdDSA: 'ed25519'
+};
+
+// Registration fixtures use packed self attestation, so the credential key signs them too
+const attestedKey = (fixture: CredentialFixture): Map<any, any> => {
+  const attestation = decodeCbor(FingerprintService.fromBase64Url(fixture.registration.credential.response.attestationObject)) as Map<any, any>;
+  const authData = FingerprintService.parseAuthenticatorData(attestation.get('authData'));
+  return authData.attestedCredential!.publicKey;
+};
+
+const storedPublicKey = (fixture: CredentialFixture): string => {
+  const attestation = decodeCbor(FingerprintService.fromBase64Url(fixture.registration.credential.response.attestationObject)) as Map<any, any>;
+  return FingerprintService.parseAuthenticatorData(attestation.get('authData')).attestedCredential!.publicKeyBytes.toString('base64');
+};
+
+// Flip flag bits of recorded authenticator data; flags are checked before the signature
+const withFlags = (authenticatorData: string, flags: number): string => {
+  const buffer = FingerprintService.fromBase64Url(authenticatorData);
+  buffer[32] = flags;
+  return FingerprintService.toBase64Url(buffer);
+};
+
+const mockChallenge = (challenge: string) => {
+  const challengeDoc = { challenge, save: jest.fn().mockResolvedValue(undefined) };
+  jest.spyOn(WebAuthnChallenge, 'findOneAndUpdate').mockResolvedValue(challengeDoc as any);
+  return challengeDoc;
+};
+
+describe('FingerprintService', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      WEBAUTHN_RP_ID: fixtures.rpId,
+      WEBAUTHN_ALLOWED_ORIGINS: fixtures.origin,
+      WEBAUTHN_REQUIRE_USER_VERIFICATION: 'true'
+    };
+    jest.spyOn(Student, 'exists').mockResolvedValue(null);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  describe('coseToPublicKey', () => {
+    it.each(credentials)('converts the %s credential key', (name, fixture) => {
+      const { key, algorithm } = FingerprintService.coseToPublicKey(attestedKey(fixture));
+
+      expect(algorithm).toBe(fixture.algorithm);
+      expect(key.asymmetricKeyType).toBe(keyTypes[name]);
+    });
+
+    it('rejects a key whose type does not match its algorithm', () => {
+      const coseKey = new Map(attestedKey(es256));
+      coseKey.set(3, fixtures.credentials.RS256.algorithm);
+
+      expect(() => FingerprintService.coseToPublicKey(coseKey)).toThrow('does not match algorithm');
+    });
+
+    it('rejects an unsupported algorithm', () => {
+      const coseKey = new Map(attestedKey(es256));
+      coseKey.set(3, -65535);
+
+      expect(() => FingerprintService.coseToPublicKey(coseKey)).toThrow('Unsupported credential algorithm');
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it.each(credentials)('accepts the recorded %s registration', async (_name, fixture) => {
+      const challengeDoc = mockChallenge(fixture.registration.challenge);
+
+      const result = await FingerprintService.verifyRegistration('registration-id', fixture.registration.credential as any);
+
+      expect(result.verified).toBe(true);
+      expect(result.data).toMatchObject({
+        credentialId: fixture.registration.credential.id,
+        publicKey: storedPublicKey(fixture),
+        algorithm: fixture.algorithm,
+        attestationFormat: 'packed',
+        userVerified: true
+      });
+      expect(challengeDoc.save).toHaveBeenCalled();
+    });
+
+    it('rejects a registration made for another relying party', async () => {
+      process.env.WEBAUTHN_RP_ID = 'attendance.example.edu';
+      mockChallenge(es256.registration.challenge);
+
+      const result = await FingerprintService.verifyRegistration('registration-id', es256.registration.credential as any);
+
+      expect(result).toMatchObject({ verified: false, code: 'RP_ID_MISMATCH' });
+    });
+
+    it('rejects a credential that is already registered', async () => {
+      mockChallenge(es256.registration.challenge);
+      jest.spyOn(Student, 'exists').mockResolvedValue({ _id: 'student-id' } as any);
+
+      const result = await FingerprintService.verifyRegistration('registration-id', es256.registration.credential as any);
+
+      expect(result).toMatchObject({ verified: false, code: 'CREDENTIAL_ALREADY_REGISTERED' });
+    });
+  });
+
+  describe('verifySignature', () => {
+    it.each(credentials)('verifies the recorded %s assertion signature', (_name, fixture) => {
+      const { key, algorithm } = FingerprintService.loadStoredPublicKey(storedPublicKey(fixture), fixture.algorithm);
+      const { authenticatorData, clientDataJSON, signature } = fixture.assertion.request;
+      const clientDataHash = crypto.createHash('sha256').update(FingerprintService.fromBase64Url(clientDataJSON)).digest();
+      const signedData = Buffer.concat([FingerprintService.fromBase64Url(authenticatorData), clientDataHash]);
+
+      expect(FingerprintService.verifySignature(algorithm, key, signedData, FingerprintService.fromBase64Url(signature))).toBe(true);
+      expect(FingerprintService.verifySignature(algorithm, key, Buffer.concat([signedData, Buffer.from([0])]), FingerprintService.fromBase64Url(signature))).toBe(false);
+    });
+
+    it('refuses to verify with an unsupported algorithm', () => {
+      const { key } = FingerprintService.loadStoredPublicKey(storedPublicKey(es256));
+
+      expect(() => FingerprintService.verifySignature(-65535, key, Buffer.alloc(1), Buffer.alloc(1))).toThrow('Unsupported signature algorithm');
+    });
+  });
+
+  describe('loadStoredPublicKey', () => {
+    it('loads a legacy SPKI key as ES256', () => {
+      const { key, algorithm } = FingerprintService.loadStoredPublicKey(es256.spkiPublicKey);
+
+      expect(algorithm).toBe(es256.algorithm);
+      expect(key.asymmetricKeyType).toBe('ec');
+    });
+
+    it('rejects a stored algorithm that does not match the COSE key', () => {
+      expect(() => FingerprintService.loadStoredPublicKey(storedPublicKey(es256), fixtures.credentials.EdDSA.algorithm))
+        .toThrow('Stored credential algorithm does not match its key');
+    });
+  });
+
+  describe('verifyAssertion', () => {
+    it.each(credentials)('accepts the recorded %s assertion', async (_name, fixture) => {
+      mockChallenge(fixture.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        fixture.assertion.request,
+        { publicKey: storedPublicKey(fixture), algorithm: fixture.algorithm, counter: 0 },
+        'device-id'
+      );
+
+      expect(result).toEqual({
+        verified: true,
+        data: { signCount: fixture.assertion.signCount, storedCounter: 0, userVerified: true }
+      });
+    });
+
+    it('accepts an assertion against a legacy SPKI key', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(es256.assertion.request, { publicKey: es256.spkiPublicKey, counter: 0 });
+
+      expect(result.verified).toBe(true);
+    });
+
+    it('rejects a credential stored with the wrong algorithm', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        es256.assertion.request,
+        { publicKey: storedPublicKey(es256), algorithm: fixtures.credentials.RS256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'INVALID_ASSERTION' });
+    });
+
+    it('rejects a signature made by another credential', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        { ...es256.assertion.request, signature: fixtures.credentials.EdDSA.assertion.request.signature },
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'INVALID_SIGNATURE' });
+    });
+
+    it('rejects an assertion made for another relying party', async () => {
+      process.env.WEBAUTHN_RP_ID = 'attendance.example.edu';
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        es256.assertion.request,
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'RP_ID_MISMATCH' });
+    });
+
+    it('rejects an assertion without user presence', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        { ...es256.assertion.request, authenticatorData: withFlags(es256.assertion.request.authenticatorData, 0x04) },
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'USER_NOT_PRESENT' });
+    });
+
+    it('rejects an assertion without user verification', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        { ...es256.assertion.request, authenticatorData: withFlags(es256.assertion.request.authenticatorData, 0x01) },
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'USER_NOT_VERIFIED' });
+    });
+
+    it('reports a counter that did not increase', async () => {
+      mockChallenge(es256.assertion.challenge);
+
+      const result = await FingerprintService.verifyAssertion(
+        es256.assertion.request,
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: es256.assertion.signCount }
+      );
+
+      expect(result).toEqual({
+        verified: false,
+        code: 'COUNTER_REGRESSION',
+        error: expect.any(String),
+        data: { signCount: es256.assertion.signCount, storedCounter: es256.assertion.signCount, userVerified: true }
+      });
+    });
+
+    it('rejects a challenge that was not issued', async () => {
+      jest.spyOn(WebAuthnChallenge, 'findOneAndUpdate').mockResolvedValue(null);
+      jest.spyOn(WebAuthnChallenge, 'findOne').mockResolvedValue(null);
+
+      const result = await FingerprintService.verifyAssertion(
+        es256.assertion.request,
+        { publicKey: storedPublicKey(es256), algorithm: es256.algorithm, counter: 0 }
+      );
+
+      expect(result).toMatchObject({ verified: false, code: 'CHALLENGE_NOT_FOUND' });
+    });
+  });
+});
@@ -1,85 +1,825 @@
 import crypto from 'crypto';
-import { FingerprintVerificationRequest } from '../types';
+import Student from '../models/Student';
+import WebAuthnChallenge from '../models/WebAuthnChallenge';
+import { decodeCbor, decodeCborItem } from '../utils/cbor';
+import {
+  AssertionVerificationData,
+  FingerprintVerificationRequest,
+  IFingerprintCredential,
+  IStudent,
+  IVerifiedRegistration,
+  IWebAuthnChallenge,
+  ParsedAuthenticatorData,
+  PublicKeyCredentialCreationOptionsJSON,
+  RegistrationCredentialJSON,
+  WebAuthnChallengeType,
+  WebAuthnVerificationResult
+} from '../types';
+
+// COSE key labels and values (RFC 9052 / RFC 9053)
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+const COSE_RSA_N = -1;
+const COSE_RSA_E = -2;
+const COSE_KTY_OKP = 1;
+const COSE_KTY_EC2 = 2;
+const COSE_KTY_RSA = 3;
+
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_ES384 = -35;
+const COSE_ALG_ES512 = -36;
+const COSE_ALG_PS256 = -37;
+const COSE_ALG_RS256 = -257;
+
+// EC2 curves by COSE identifier, with their JWK name and coordinate length
+const COSE_EC2_CURVES: Record<number, { name: string; size: number }> = {
+  1: { name: 'P-256', size: 32 },
+  2: { name: 'P-384', size: 48 },
+  3: { name: 'P-521', size: 66 }
+};
+const COSE_CRV_ED25519 = 6;
+
+interface CoseAlgorithm {
+  name: string;
+  kty: number;
+  crv?: number;
+  hash: string | null; // null for EdDSA, which hashes internally
+  pss?: boolean;
+}
+
+const COSE_ALGORITHMS: Record<number, CoseAlgorithm> = {
+  [COSE_ALG_ES256]: { name: 'ES256', kty: COSE_KTY_EC2, crv: 1, hash: 'sha256' },
+  [COSE_ALG_ES384]: { name: 'ES384', kty: COSE_KTY_EC2, crv: 2, hash: 'sha384' },
+  [COSE_ALG_ES512]: { name: 'ES512', kty: COSE_KTY_EC2, crv: 3, hash: 'sha512' },
+  [COSE_ALG_EDDSA]: { name: 'EdDSA', kty: COSE_KTY_OKP, crv: COSE_CRV_ED25519, hash: null },
+  [COSE_ALG_PS256]: { name: 'PS256', kty: COSE_KTY_RSA, hash: 'sha256', pss: true },
+  [COSE_ALG_RS256]: { name: 'RS256', kty: COSE_KTY_RSA, hash: 'sha256' }
+};
 
 /**
  * Fingerprint Service
- * Handles WebAuthn fingerprint authentication verification
+ * Handles WebAuthn fingerprint registration and authentication verification
  */
 
 export class FingerprintService {
+  static get rpId(): string {
+    return process.env.WEBAUTHN_RP_ID || 'localhost';
+  }
+
+  static get rpName(): string {
+    return process.env.WEBAUTHN_RP_NAME || 'MCA Attendance';
+  }
+
+  /**
+   * Origins allowed to run WebAuthn ceremonies, e.g. the enrollment desk and every kiosk page
+   */
+  static get allowedOrigins(): string[] {
+    const configured = process.env.WEBAUTHN_ALLOWED_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:3000';
+    return configured
+      .split(',')
+      .map(origin => this.normalizeOrigin(origin))
+      .filter(origin => origin.length > 0);
+  }
+
+  static get challengeTtlMs(): number {
+    return parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_MS || '120000');
+  }
+
+  // How long a verified registration can wait for the enrollment form to be submitted
+  static get registrationTtlMs(): number {
+    return parseInt(process.env.WEBAUTHN_REGISTRATION_TTL_MS || '900000');
+  }
+
+  // Active credentials a student may hold, e.g. both thumbs on two kiosks
+  static get maxCredentialsPerStudent(): number {
+    return parseInt(process.env.FINGERPRINT_CREDENTIAL_MAX || '5');
+  }
+
+  // 'required' lets shared kiosks identify students from the credential alone
+  static get residentKey(): 'required' | 'preferred' | 'discouraged' {
+    const configured = process.env.WEBAUTHN_RESIDENT_KEY;
+    return configured === 'required' || configured === 'discouraged' ? configured : 'preferred';
+  }
+
+  static get requireUserVerification(): boolean {
+    return process.env.WEBAUTHN_REQUIRE_USER_VERIFICATION !== 'false';
+  }
+
+  /**
+   * Check that every allowed origin can use the configured RP ID
+   * Browsers only allow an RP ID equal to, or a registrable suffix of, the page's host
+   */
+  static validateConfiguration(): void {
+    if (!process.env.WEBAUTHN_RP_ID || !process.env.WEBAUTHN_ALLOWED_ORIGINS) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('WEBAUTHN_RP_ID and WEBAUTHN_ALLOWED_ORIGINS must be set in production');
+      }
+      console.warn('⚠️ WebAuthn RP ID or allowed origins not set - using development defaults');
+    }
+
+    const rpId = this.rpId.toLowerCase();
+    for (const origin of this.allowedOrigins) {
+      let url: URL;
+      try {
+        url = new URL(origin);
+      } catch {
+        throw new Error(`Invalid WebAuthn origin: ${origin}`);
+      }
+
+      const host = url.hostname.toLowerCase();
+      if (host !== rpId && !host.endsWith(`.${rpId}`)) {
+        throw new Error(`WebAuthn origin ${origin} is not within RP ID ${rpId}`);
+      }
+
+      if (url.protocol !== 'https:' && host !== 'localhost') {
+        throw new Error(`WebAuthn origin ${origin} must use https`);
+      }
+    }
+  }
+
+  static normalizeOrigin(origin: string): string {
+    return origin.trim().replace(/\/+$/, '').toLowerCase();
+  }
+
+  // COSE algorithm identifiers accepted for new credentials, in order of preference
+  static readonly supportedAlgorithms = [
+    COSE_ALG_ES256,
+    COSE_ALG_EDDSA,
+    COSE_ALG_ES384,
+    COSE_ALG_ES512,
+    COSE_ALG_PS256,
+    COSE_ALG_RS256
+  ];
+
+  static toBase64Url(buffer: Buffer): string {
+    return buffer.toString('base64url');
+  }
+
+  /**
+   * Decode base64url (or standard base64) as sent by browsers
+   */
+  static fromBase64Url(value: string): Buffer {
+    return Buffer.from(value, 'base64url');
+  }
+
+  /**
+   * Credential IDs are stored base64url; clients may send the same bytes as standard base64
+   */
+  static normalizeCredentialId(credentialId: string): string {
+    return this.toBase64Url(this.fromBase64Url(credentialId));
+  }
+
+  /**
+   * Match a credential in the credentials list or the legacy fields,
+   * which may still hold the standard base64 form
+   */
+  private static credentialIdFilter(credentialId: string): Record<string, any> {
+    const id = this.normalizeCredentialId(credentialId);
+    return {
+      $or: [
+        { 'fingerprintCredentials.credentialId': id },
+        { fingerprintCredentialId: { $in: [id, this.fromBase64Url(id).toString('base64')] } }
+      ]
+    };
+  }
+
+  /**
+   * Parse the authenticator data structure (WebAuthn §6.1)
+   */
+  static parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+    if (authData.length < 37) {
+      throw new Error('Authenticator data is too short');
+    }
+
+    const flagsByte = authData[32];
+    const parsed: ParsedAuthenticatorData = {
+      rpIdHash: authData.subarray(0, 32),
+      flags: {
+        userPresent: (flagsByte & 0x01) !== 0,
+        userVerified: (flagsByte & 0x04) !== 0,
+        backupEligible: (flagsByte & 0x08) !== 0,
+        backedUp: (flagsByte & 0x10) !== 0,
+        attestedCredentialData: (flagsByte & 0x40) !== 0,
+        extensionData: (flagsByte & 0x80) !== 0
+      },
+      signCount: authData.readUInt32BE(33)
+    };
+
+    let offset = 37;
+
+    if (parsed.flags.attestedCredentialData) {
+      if (authData.length < offset + 18) {
+        throw new Error('Attested credential data is truncated');
+      }
+
+      const aaguid = authData.subarray(offset, offset + 16).toString('hex');
+      offset += 16;
+      const credentialIdLength = authData.readUInt16BE(offset);
+      offset += 2;
+
+      if (authData.length < offset + credentialIdLength) {
+        throw new Error('Credential ID is truncated');
+      }
+      const credentialId = authData.subarray(offset, offset + credentialIdLength);
+      offset += credentialIdLength;
+
+      const { value: publicKey, length } = decodeCborItem(authData, offset);
+      if (!(publicKey instanceof Map)) {
+        throw new Error('Credential public key is not a COSE key');
+      }
+      const publicKeyBytes = authData.subarray(offset, offset + length);
+      offset += length;
+
+      parsed.attestedCredential = {
+        aaguid: [
+          aaguid.slice(0, 8), aaguid.slice(8, 12), aaguid.slice(12, 16), aaguid.slice(16, 20), aaguid.slice(20)
+        ].join('-'),
+        credentialId: Buffer.from(credentialId),
+        publicKey,
+        publicKeyBytes: Buffer.from(publicKeyBytes)
+      };
+    }
+
+    if (parsed.flags.extensionData) {
+      const { value, length } = decodeCborItem(authData, offset);
+      parsed.extensions = value;
+      offset += length;
+    }
+
+    if (offset !== authData.length) {
+      throw new Error('Unexpected trailing bytes in authenticator data');
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Convert a COSE key to a Node public key
+   * The key type and curve must match the algorithm declared in the key
+   */
+  static coseToPublicKey(coseKey: Map<any, any>): { key: crypto.KeyObject; algorithm: number } {
+    const algorithm = coseKey.get(COSE_ALG);
+    const spec = COSE_ALGORITHMS[algorithm];
+    if (!spec) {
+      throw new Error(`Unsupported credential algorithm: ${algorithm}`);
+    }
+
+    const kty = coseKey.get(COSE_KTY);
+    if (kty !== spec.kty) {
+      throw new Error(`Key type ${kty} does not match algorithm ${spec.name}`);
+    }
+
+    let jwk: crypto.JsonWebKey;
+
+    switch (kty) {
+      case COSE_KTY_EC2: {
+        const crv = coseKey.get(COSE_CRV);
+        const curve = COSE_EC2_CURVES[crv];
+        if (!curve || crv !== spec.crv) {
+          throw new Error(`Curve ${crv} does not match algorithm ${spec.name}`);
+        }
+
+        const x = coseKey.get(COSE_X);
+        const y = coseKey.get(COSE_Y);
+        if (!Buffer.isBuffer(x) || !Buffer.isBuffer(y) || x.length !== curve.size || y.length !== curve.size) {
+          throw new Error('Invalid EC2 key coordinates');
+        }
+
+        jwk = { kty: 'EC', crv: curve.name, x: this.toBase64Url(x), y: this.toBase64Url(y) };
+        break;
+      }
+      case COSE_KTY_OKP: {
+        const x = coseKey.get(COSE_X);
+        if (coseKey.get(COSE_CRV) !== COSE_CRV_ED25519 || !Buffer.isBuffer(x) || x.length !== 32) {
+          throw new Error('Only Ed25519 OKP keys are supported');
+        }
+
+        jwk = { kty: 'OKP', crv: 'Ed25519', x: this.toBase64Url(x) };
+        break;
+      }
+      case COSE_KTY_RSA: {
+        const n = coseKey.get(COSE_RSA_N);
+        const e = coseKey.get(COSE_RSA_E);
+        if (!Buffer.isBuffer(n) || !Buffer.isBuffer(e) || n.length < 256) {
+          throw new Error('Invalid RSA key, at least 2048 bits are required');
+        }
+
+        jwk = { kty: 'RSA', n: this.toBase64Url(n), e: this.toBase64Url(e) };
+        break;
+      }
+      default:
+        throw new Error(`Unsupported COSE key type: ${kty}`);
+    }
+
+    return { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  }
+
+  /**
+   * Load a stored credential key
+   * Credentials registered before COSE storage hold a DER SPKI ES256 key, which
+   * starts with an ASN.1 SEQUENCE byte; a COSE key always starts with a CBOR map
+   */
+  static loadStoredPublicKey(publicKey: string, algorithm?: number): { key: crypto.KeyObject; algorithm: number } {
+    const keyBuffer = Buffer.from(publicKey, 'base64');
+
+    if (keyBuffer[0] === 0x30) {
+      return {
+        key: crypto.createPublicKey({ key: keyBuffer, format: 'der', type: 'spki' }),
+        algorithm: algorithm ?? COSE_ALG_ES256
+      };
+    }
+
+    const coseKey = decodeCbor(keyBuffer);
+    if (!(coseKey instanceof Map)) {
+      throw new Error('Stored credential key is not a COSE key');
+    }
+
+    const loaded = this.coseToPublicKey(coseKey);
+    if (algorithm !== undefined && algorithm !== loaded.algorithm) {
+      throw new Error('Stored credential algorithm does not match its key');
+    }
+    return loaded;
+  }
+
+  /**
+   * Verify a WebAuthn signature for a COSE algorithm
+   * ECDSA signatures are DER encoded, as produced by authenticators
+   */
+  static verifySignature(algorithm: number, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean {
+    const spec = COSE_ALGORITHMS[algorithm];
+    if (!spec) {
+      throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+    }
+
+    if (spec.pss) {
+      return crypto.verify(spec.hash, data, {
+        key,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST
+      }, signature);
+    }
+
+    return crypto.verify(spec.hash, data, key, signature);
+  }
+
+  /**
+   * Issue creation options for registering a fingerprint credential
+   * The challenge is stored server side and can be used once
+   */
+  static async createRegistrationOptions(params: {
+    studentMongoId?: string;
+    userHandle?: string;
+    userName: string;
+    displayName: string;
+    excludeCredentialIds: string[];
+    createdBy?: string;
+  }): Promise<{ registrationId: string; publicKey: PublicKeyCredentialCreationOptionsJSON }> {
+    const challenge = this.toBase64Url(crypto.randomBytes(32));
+
+    // New enrollments get their user handle now; it becomes the student's webauthnUserId
+    const userHandle = params.userHandle || this.toBase64Url(crypto.randomBytes(32));
+
+    const challengeDoc = await WebAuthnChallenge.create({
+      challenge,
+      type: 'registration',
+      userHandle,
+      student: params.studentMongoId,
+      createdBy: params.createdBy,
+      expiresAt: new Date(Date.now() + this.challengeTtlMs)
+    });
+
+    return {
+      registrationId: challengeDoc._id.toString(),
+      publicKey: {
+        challenge,
+        rp: { id: this.rpId, name: this.rpName },
+        user: { id: userHandle, name: params.userName, displayName: params.displayName },
+        pubKeyCredParams: this.supportedAlgorithms.map(alg => ({ type: 'public-key' as const, alg })),
+        timeout: this.challengeTtlMs,
+        attestation: 'none',
+        authenticatorSelection: {
+          authenticatorAttachment: 'platform',
+          residentKey: this.residentKey,
+          requireResidentKey: this.residentKey === 'required',
+          userVerification: this.requireUserVerification ? 'required' : 'preferred'
+        },
+        excludeCredentials: params.excludeCredentialIds.map(id => ({ type: 'public-key' as const, id }))
+      }
+    };
+  }
+
+  /**
+   * Issue an authentication challenge bound to the requesting kiosk
+   */
+  static async createAuthenticationChallenge(deviceId?: string): Promise<{
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: 'required' | 'preferred';
+    expiresAt: Date;
+  }> {
+    const challenge = this.toBase64Url(crypto.randomBytes(32));
+    const expiresAt = new Date(Date.now() + this.challengeTtlMs);
+
+    await WebAuthnChallenge.create({
+      challenge,
+      type: 'authentication',
+      device: deviceId,
+      expiresAt
+    });
+
+    return {
+      challenge,
+      rpId: this.rpId,
+      timeout: this.challengeTtlMs,
+      userVerification: this.requireUserVerification ? 'required' : 'preferred',
+      expiresAt
+    };
+  }
+
   /**
-   * Verify fingerprint authentication assertion
-   * @param credentialId - The credential ID from WebAuthn
-   * @param authenticatorData - Base64 encoded authenticator data
-   * @param clientDataJSON - Base64 encoded client data JSON
-   * @param signature - Base64 encoded signature
-   * @param publicKey - Stored public key for this credential
-   * @param challenge - Expected challenge (optional, can be validated separately)
-   * @returns boolean indicating if verification succeeded
+   * Atomically mark a stored challenge as used
+   * Distinguishes unknown, expired and already used challenges
+   */
+  static async consumeChallenge(
+    lookup: { id: string } | { challenge: string },
+    type: WebAuthnChallengeType,
+    deviceId?: string
+  ): Promise<WebAuthnVerificationResult<IWebAuthnChallenge>> {
+    const now = new Date();
+    const filter: Record<string, unknown> = 'id' in lookup
+      ? { _id: lookup.id, type }
+      : { challenge: lookup.challenge, type };
+
+    // Authentication challenges can only be answered through the kiosk they were issued to
+    if (type === 'authentication') {
+      filter.device = deviceId ? deviceId : { $exists: false };
+    }
+
+    const challengeDoc = await WebAuthnChallenge.findOneAndUpdate(
+      { ...filter, usedAt: { $exists: false }, expiresAt: { $gt: now } },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+
+    if (challengeDoc) {
+      return { verified: true, data: challengeDoc };
+    }
+
+    const existing = await WebAuthnChallenge.findOne(filter);
+    if (!existing) {
+      return { verified: false, code: 'CHALLENGE_NOT_FOUND', error: 'Challenge not found. Please start again.' };
+    }
+    if (existing.usedAt) {
+      return { verified: false, code: 'CHALLENGE_ALREADY_USED', error: 'Challenge has already been used' };
+    }
+    return { verified: false, code: 'CHALLENGE_EXPIRED', error: 'Challenge has expired. Please start again.' };
+  }
+
+  /**
+   * Verify a registration response (WebAuthn §7.1) against its stored challenge
+   * Supports the 'none' and 'packed' attestation formats
+   */
+  static async verifyRegistration(
+    registrationId: string,
+    credential: RegistrationCredentialJSON
+  ): Promise<WebAuthnVerificationResult<IVerifiedRegistration>> {
+    const consumed = await this.consumeChallenge({ id: registrationId }, 'registration');
+    if (!consumed.verified) {
+      return { verified: false, code: consumed.code, error: consumed.error };
+    }
+    const challengeDoc = consumed.data!;
+
+    let registration: IVerifiedRegistration;
+    try {
+      const clientDataBuffer = this.fromBase64Url(credential.response.clientDataJSON);
+      const clientData = JSON.parse(clientDataBuffer.toString('utf8'));
+
+      const clientDataError = this.checkClientData(clientData, 'webauthn.create');
+      if (clientDataError) {
+        return clientDataError;
+      }
+
+      if (clientData.challenge !== challengeDoc.challenge) {
+        return { verified: false, code: 'CHALLENGE_MISMATCH', error: 'Challenge mismatch' };
+      }
+
+      const attestation = decodeCbor(this.fromBase64Url(credential.response.attestationObject));
+      if (!(attestation instanceof Map)) {
+        return { verified: false, code: 'INVALID_ATTESTATION', error: 'Malformed attestation object' };
+      }
+
+      const fmt = attestation.get('fmt');
+      const attStmt = attestation.get('attStmt');
+      const authDataBuffer = attestation.get('authData');
+      if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !Buffer.isBuffer(authDataBuffer)) {
+        return { verified: false, code: 'INVALID_ATTESTATION', error: 'Malformed attestation object' };
+      }
+
+      const authData = this.parseAuthenticatorData(authDataBuffer);
+
+      if (!this.matchesRpId(authData.rpIdHash)) {
+        return { verified: false, code: 'RP_ID_MISMATCH', error: 'Credential was created for a different relying party' };
+      }
+
+      if (!authData.flags.userPresent) {
+        return { verified: false, code: 'USER_NOT_PRESENT', error: 'User presence was not confirmed' };
+      }
+
+      if (this.requireUserVerification && !authData.flags.userVerified) {
+        return { verified: false, code: 'USER_NOT_VERIFIED', error: 'Fingerprint verification was not performed' };
+      }
+
+      if (!authData.attestedCredential) {
+        return { verified: false, code: 'INVALID_ATTESTATION', error: 'Attested credential data is missing' };
+      }
+
+      const { credentialId, publicKey: coseKey, publicKeyBytes, aaguid } = authData.attestedCredential;
+      const providedId = this.fromBase64Url(credential.rawId || credential.id);
+      if (!credentialId.equals(providedId)) {
+        return { verified: false, code: 'CREDENTIAL_ID_MISMATCH', error: 'Credential ID does not match authenticator data' };
+      }
+
+      const alg = coseKey.get(COSE_ALG);
+      if (!this.supportedAlgorithms.includes(alg)) {
+        return { verified: false, code: 'UNSUPPORTED_ALGORITHM', error: `Unsupported credential algorithm: ${alg}` };
+      }
+
+      const { key: credentialKey } = this.coseToPublicKey(coseKey);
+      const clientDataHash = crypto.createHash('sha256').update(clientDataBuffer).digest();
+
+      const attestationError = this.verifyAttestationStatement(fmt, attStmt, authDataBuffer, clientDataHash, credentialKey, alg);
+      if (attestationError) {
+        return { verified: false, code: 'INVALID_ATTESTATION', error: attestationError };
+      }
+
+      registration = {
+        credentialId: this.toBase64Url(credentialId),
+        publicKey: publicKeyBytes.toString('base64'),
+        algorithm: alg,
+        counter: authData.signCount,
+        attestationFormat: fmt,
+        aaguid,
+        userVerified: authData.flags.userVerified
+      };
+    } catch (error: any) {
+      console.error('Fingerprint registration verification error:', error);
+      return { verified: false, code: 'INVALID_ATTESTATION', error: error.message || 'Malformed registration response' };
+    }
+
+    const alreadyRegistered = await Student.exists(this.credentialIdFilter(registration.credentialId));
+    if (alreadyRegistered) {
+      return { verified: false, code: 'CREDENTIAL_ALREADY_REGISTERED', error: 'This fingerprint credential is already registered' };
+    }
+
+    // Keep the verified credential until the enrollment or biometrics update consumes it
+    challengeDoc.registration = registration;
+    challengeDoc.expiresAt = new Date(Date.now() + this.registrationTtlMs);
+    await challengeDoc.save();
+
+    return { verified: true, data: registration };
+  }
+
+  /**
+   * Claim a verified registration for a student, exactly once
+   * New enrollments pass no studentMongoId and may only use unbound registrations
+   */
+  static async consumeRegistration(
+    registrationId: string,
+    studentMongoId?: string
+  ): Promise<WebAuthnVerificationResult<{ registration: IVerifiedRegistration; userHandle: string }>> {
+    const now = new Date();
+
+    const challengeDoc = await WebAuthnChallenge.findOneAndUpdate(
+      {
+        _id: registrationId,
+        type: 'registration',
+        registration: { $exists: true },
+        registrationConsumedAt: { $exists: false },
+        expiresAt: { $gt: now },
+        student: studentMongoId ? studentMongoId : { $exists: false }
+      },
+      { $set: { registrationConsumedAt: now } },
+      { new: true }
+    );
+
+    if (!challengeDoc || !challengeDoc.registration || !challengeDoc.userHandle) {
+      return {
+        verified: false,
+        code: 'REGISTRATION_NOT_FOUND',
+        error: 'Fingerprint registration not found, expired, already used or issued for another student'
+      };
+    }
+
+    return {
+      verified: true,
+      data: { registration: challengeDoc.registration, userHandle: challengeDoc.userHandle }
+    };
+  }
+
+  /**
+   * Check ceremony type and origin of the collected client data
+   * Returns a failed result, or null when the client data is acceptable
+   */
+  private static checkClientData(
+    clientData: any,
+    expectedType: 'webauthn.create' | 'webauthn.get'
+  ): WebAuthnVerificationResult<any> | null {
+    if (clientData.type !== expectedType) {
+      return { verified: false, code: 'INVALID_CLIENT_DATA', error: 'Invalid client data type' };
+    }
+
+    if (typeof clientData.origin !== 'string' || !this.allowedOrigins.includes(this.normalizeOrigin(clientData.origin))) {
+      console.warn(`🚫 WebAuthn origin rejected: ${clientData.origin}`);
+      return { verified: false, code: 'ORIGIN_NOT_ALLOWED', error: 'Request origin is not allowed' };
+    }
+
+    // Kiosk pages must not run the ceremony inside a cross-origin iframe
+    if (clientData.crossOrigin === true) {
+      return { verified: false, code: 'ORIGIN_NOT_ALLOWED', error: 'Cross-origin WebAuthn requests are not allowed' };
+    }
+
+    return null;
+  }
+
+  private static matchesRpId(rpIdHash: Buffer): boolean {
+    const expectedRpIdHash = crypto.createHash('sha256').update(this.rpId).digest();
+    return crypto.timingSafeEqual(rpIdHash, expectedRpIdHash);
+  }
+
+  /**
+   * Verify the attestation statement; returns an error message or null
+   * Attestation certificates are not chained to a trust anchor, the kiosk
+   * requests 'none' attestation and 'packed' is accepted for completeness
+   */
+  private static verifyAttestationStatement(
+    fmt: string,
+    attStmt: Map<any, any>,
+    authData: Buffer,
+    clientDataHash: Buffer,
+    credentialKey: crypto.KeyObject,
+    credentialAlg: number
+  ): string | null {
+    if (fmt === 'none') {
+      return attStmt.size === 0 ? null : 'Attestation statement must be empty for format none';
+    }
+
+    if (fmt !== 'packed') {
+      return `Unsupported attestation format: ${fmt}`;
+    }
+
+    const alg = attStmt.get('alg');
+    const sig = attStmt.get('sig');
+    const x5c = attStmt.get('x5c');
+    if (!COSE_ALGORITHMS[alg] || !Buffer.isBuffer(sig)) {
+      return 'Unsupported packed attestation statement';
+    }
+
+    const signedData = Buffer.concat([authData, clientDataHash]);
+    let key: crypto.KeyObject;
+
+    if (Array.isArray(x5c) && x5c.length > 0 && Buffer.isBuffer(x5c[0])) {
+      key = new crypto.X509Certificate(x5c[0]).publicKey;
+    } else {
+      // Self attestation is signed with the credential key itself
+      if (alg !== credentialAlg) {
+        return 'Self attestation algorithm does not match the credential';
+      }
+      key = credentialKey;
+    }
+
+    return this.verifySignature(alg, key, signedData, sig) ? null : 'Attestation signature is invalid';
+  }
+
+  /**
+   * Verify fingerprint authentication assertion (WebAuthn §7.2)
+   * The challenge in clientDataJSON must have been issued to this kiosk by
+   * createAuthenticationChallenge; it is consumed here and cannot be replayed
+   * @param request - Assertion from navigator.credentials.get (base64url fields)
+   * @param credential - Stored public key, algorithm and signature counter for this credential
+   * @param deviceId - Kiosk submitting the assertion
    */
   static async verifyAssertion(
     request: FingerprintVerificationRequest,
-    publicKey: string,
-    challenge?: string
-  ): Promise<boolean> {
+    credential: { publicKey: string; algorithm?: number; counter: number },
+    deviceId?: string
+  ): Promise<WebAuthnVerificationResult<AssertionVerificationData>> {
+    let clientDataBuffer: Buffer;
+    let clientData: any;
     try {
-      // Decode the client data JSON
-      const clientDataBuffer = Buffer.from(request.clientDataJSON, 'base64');
-      const clientData = JSON.parse(clientDataBuffer.toString('utf8'));
+      clientDataBuffer = this.fromBase64Url(request.clientDataJSON);
+      clientData = JSON.parse(clientDataBuffer.toString('utf8'));
+    } catch {
+      return { verified: false, code: 'INVALID_CLIENT_DATA', error: 'Malformed client data' };
+    }
+
+    const clientDataError = this.checkClientData(clientData, 'webauthn.get');
+    if (clientDataError) {
+      return clientDataError;
+    }
+
+    if (typeof clientData.challenge !== 'string' || !clientData.challenge) {
+      return { verified: false, code: 'CHALLENGE_NOT_FOUND', error: 'Challenge is missing from client data' };
+    }
+
+    // Consume before checking the signature so a challenge is never accepted twice
+    const consumed = await this.consumeChallenge({ challenge: clientData.challenge }, 'authentication', deviceId);
+    if (!consumed.verified) {
+      return { verified: false, code: consumed.code, error: consumed.error };
+    }
 
-      // Verify the challenge if provided
-      if (challenge && clientData.challenge !== challenge) {
-        console.error('Challenge mismatch');
-        return false;
+    try {
+      const authDataBuffer = this.fromBase64Url(request.authenticatorData);
+      const authData = this.parseAuthenticatorData(authDataBuffer);
+
+      if (!this.matchesRpId(authData.rpIdHash)) {
+        return { verified: false, code: 'RP_ID_MISMATCH', error: 'Assertion was made for a different relying party' };
+      }
+
+      if (!authData.flags.userPresent) {
+        return { verified: false, code: 'USER_NOT_PRESENT', error: 'User presence was not confirmed' };
       }
 
-      // Verify the origin (in production, validate against your domain)
-      if (clientData.type !== 'webauthn.get') {
-        console.error('Invalid client data type');
-        return false;
+      if (this.requireUserVerification && !authData.flags.userVerified) {
+        return { verified: false, code: 'USER_NOT_VERIFIED', error: 'Fingerprint verification was not performed' };
       }
 
       // Create the data that was signed
-      const authDataBuffer = Buffer.from(request.authenticatorData, 'base64');
       const clientDataHash = crypto.createHash('sha256').update(clientDataBuffer).digest();
       const signedData = Buffer.concat([authDataBuffer, clientDataHash]);
 
       // Decode the signature
-      const signatureBuffer = Buffer.from(request.signature, 'base64');
-
-      // Import the public key
-      const publicKeyBuffer = Buffer.from(publicKey, 'base64');
-
-      // Verify the signature using the public key
-      // Note: This is a simplified verification. In production, use a proper WebAuthn library
-      const verify = crypto.createVerify('SHA256');
-      verify.update(signedData);
-      verify.end();
-
-      // For ECDSA P-256 keys (most common for WebAuthn)
-      const isValid = verify.verify(
-        {
-          key: publicKeyBuffer,
-          format: 'der',
-          type: 'spki'
-        },
-        signatureBuffer
-      );
+      const signatureBuffer = this.fromBase64Url(request.signature);
+
+      // Import the stored public key and verify with its registered algorithm
+      const { key, algorithm } = this.loadStoredPublicKey(credential.publicKey, credential.algorithm);
+      const isValid = this.verifySignature(algorithm, key, signedData, signatureBuffer);
+
+      if (!isValid) {
+        return { verified: false, code: 'INVALID_SIGNATURE', error: 'Fingerprint signature is invalid' };
+      }
+
+      const data: AssertionVerificationData = {
+        signCount: authData.signCount,
+        storedCounter: credential.counter,
+        userVerified: authData.flags.userVerified
+      };
+
+      // Authenticators without a counter always report 0; otherwise it must increase.
+      // A counter that does not move forward means the credential was cloned
+      if ((authData.signCount !== 0 || credential.counter !== 0) && authData.signCount <= credential.counter) {
+        return {
+          verified: false,
+          code: 'COUNTER_REGRESSION',
+          error: 'Signature counter did not increase. This authenticator may have been cloned.',
+          data
+        };
+      }
 
-      return isValid;
+      return { verified: true, data };
     } catch (error) {
       console.error('Fingerprint verification error:', error);
-      return false;
+      return { verified: false, code: 'INVALID_ASSERTION', error: 'Fingerprint assertion could not be verified' };
     }
   }
 
   /**
-   * Generate a random challenge for WebAuthn
-   * @returns Base64 encoded challenge
+   * Find the active student holding a credential, in the credentials list or the legacy fields
    */
-  static generateChallenge(): string {
-    const challenge = crypto.randomBytes(32);
-    return challenge.toString('base64');
+  static async findStudentByCredentialId(credentialId: string): Promise<IStudent | null> {
+    return Student.findOne({ ...this.credentialIdFilter(credentialId), isActive: true });
+  }
+
+  /**
+   * Find the student and credential an assertion was made with
+   * Discoverable credentials return a user handle, so a shared kiosk does not need
+   * to know who is at the sensor; the student it names must own the credential used
+   */
+  static async findCredentialOwner(
+    request: FingerprintVerificationRequest
+  ): Promise<{ student: IStudent; credential: IFingerprintCredential } | null> {
+    let student: IStudent | null;
+
+    if (request.userHandle) {
+      const userHandle = this.toBase64Url(this.fromBase64Url(request.userHandle));
+      student = await Student.findOne({ webauthnUserId: userHandle, isActive: true });
+    } else {
+      student = await this.findStudentByCredentialId(request.credentialId);
+    }
+
+    const credential = student?.findFingerprintCredential(request.credentialId);
+    if (!student || !credential) {
+      if (student && request.userHandle) {
+        console.warn(`🚫 Credential ${request.credentialId} does not belong to user handle of ${student.studentId}`);
+      }
+      return null;
+    }
+
+    return { student, credential };
   }
 
   /**
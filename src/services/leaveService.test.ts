@@ -0,0 +1,57 @@
+import Leave from '../models/Leave';
+import { LeaveService } from './leaveService';
+
+const day = (date: number, hours = 0) => new Date(2026, 9, date, hours);
+
+const leave = (student: string, startDate: Date, endDate: Date) => ({ _id: `${student}-${startDate.getDate()}`, student, startDate, endDate });
+
+describe('LeaveService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findOverlappingLeave', () => {
+    it('looks for pending or approved leave overlapping the range, except the one being edited', async () => {
+      jest.spyOn(Leave, 'findOne').mockResolvedValue(null);
+
+      await LeaveService.findOverlappingLeave('student-id', day(19), day(21), 'leave-id');
+
+      expect(Leave.findOne).toHaveBeenCalledWith({
+        student: 'student-id',
+        status: { $in: ['pending', 'approved'] },
+        startDate: { $lte: day(21) },
+        endDate: { $gte: day(19) },
+        _id: { $ne: 'leave-id' }
+      });
+    });
+  });
+
+  describe('loadResolver', () => {
+    it('loads approved leave from the start of the first day', async () => {
+      jest.spyOn(Leave, 'find').mockResolvedValue([]);
+
+      await LeaveService.loadResolver(day(19, 14), day(23), ['student-id']);
+
+      expect(Leave.find).toHaveBeenCalledWith({
+        status: 'approved',
+        startDate: { $lte: day(23) },
+        endDate: { $gte: day(19) },
+        student: { $in: ['student-id'] }
+      });
+    });
+
+    it('finds the leave covering a student on any time of a day', async () => {
+      const leaves = [leave('asha', day(19), day(21)), leave('asha', day(26), day(26)), leave('ravi', day(22), day(22))];
+      jest.spyOn(Leave, 'find').mockResolvedValue(leaves as any);
+
+      const resolve = await LeaveService.loadResolver(day(1), day(31));
+
+      expect(resolve('asha', day(19, 9))).toBe(leaves[0]);
+      expect(resolve('asha', day(21, 17))).toBe(leaves[0]);
+      expect(resolve('asha', day(26, 12))).toBe(leaves[1]);
+      expect(resolve('asha', day(22, 9))).toBeUndefined();
+      expect(resolve('ravi', day(22, 9))).toBe(leaves[2]);
+      expect(resolve('meera', day(19))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import Leave from '../models/Leave';
+import { ILeave } from '../types';
+
+export type LeaveResolver = (studentMongoId: string, date: Date) => ILeave | undefined;
+
+/**
+ * Leave Service
+ * Looks up approved leave so excused days are not counted as absences
+ */
+
+export class LeaveService {
+  /**
+   * Pending or approved leave of the student overlapping a date range
+   */
+  static async findOverlappingLeave(
+    studentMongoId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeId?: string
+  ): Promise<ILeave | null> {
+    const query: any = {
+      student: studentMongoId,
+      status: { $in: ['pending', 'approved'] },
+      startDate: { $lte: endDate },
+      endDate: { $gte: startDate }
+    };
+    if (excludeId) {
+      query._id = { $ne: excludeId };
+    }
+    return Leave.findOne(query);
+  }
+
+  /**
+   * Approved leave overlapping a date range, optionally for some students only
+   */
+  static async getApprovedLeaves(from: Date, to: Date, studentMongoIds?: string[]): Promise<ILeave[]> {
+    const start = new Date(from);
+    start.setHours(0, 0, 0, 0);
+
+    const query: any = {
+      status: 'approved',
+      startDate: { $lte: to },
+      endDate: { $gte: start }
+    };
+    if (studentMongoIds) {
+      query.student = { $in: studentMongoIds };
+    }
+    return Leave.find(query);
+  }
+
+  /**
+   * Load approved leave for a range once and find the leave covering any student's day
+   */
+  static async loadResolver(from: Date, to: Date, studentMongoIds?: string[]): Promise<LeaveResolver> {
+    const leaves = await this.getApprovedLeaves(from, to, studentMongoIds);
+
+    const byStudent = new Map<string, ILeave[]>();
+    leaves.forEach(leave => {
+      const list = byStudent.get(leave.student) || [];
+      list.push(leave);
+      byStudent.set(leave.student, list);
+    });
+
+    return (studentMongoId: string, date: Date) => {
+      const day = new Date(date);
+      day.setHours(0, 0, 0, 0);
+      return byStudent.get(studentMongoId)?.find(leave => leave.startDate <= day && day <= leave.endDate);
+    };
+  }
+}
+
+export default LeaveService;
@@ -0,0 +1,104 @@
+import { LivenessService } from './livenessService';
+import { FaceDetectionResult } from '../types';
+import { Point } from '../utils/faceGeometry';
+
+// The face pipeline needs native image libraries that analyze never uses
+jest.mock('../middleware/faceRecognition', () => ({}));
+
+interface FrameOptions {
+  ear?: number; // eye aspect ratio of both eyes
+  yaw?: number; // nose tip position between the jaw edges
+  shift?: number; // horizontal movement of the other landmarks, e.g. mouth and brows
+  offset?: number; // the whole face moved within the image
+  score?: number;
+  descriptor?: number;
+}
+
+// Eye of width 20 centred on cx; EAR = 4h / (2 * 20)
+const eye = (cx: number, ear: number): Point[] => {
+  const h = ear * 10;
+  return [
+    { x: cx - 10, y: 40 },
+    { x: cx - 5, y: 40 - h },
+    { x: cx + 5, y: 40 - h },
+    { x: cx + 10, y: 40 },
+    { x: cx + 5, y: 40 + h },
+    { x: cx - 5, y: 40 + h }
+  ];
+};
+
+const frame = ({ ear = 0.3, yaw = 0.5, shift = 0, offset = 0, score = 0.9, descriptor = 0.1 }: FrameOptions = {}): FaceDetectionResult => {
+  const positions: Point[] = Array.from({ length: 68 }, (_, i) => ({ x: 10 + i * 1.2 + shift, y: 60 + (i % 5) }));
+  positions[0] = { x: 0, y: 50 };
+  positions[16] = { x: 100, y: 50 };
+  positions[30] = { x: yaw * 100, y: 55 };
+  positions.splice(36, 6, ...eye(30, ear));
+  positions.splice(42, 6, ...eye(70, ear));
+
+  return {
+    detection: { score },
+    landmarks: { positions: positions.map(p => ({ x: p.x + offset, y: p.y + offset })) },
+    descriptor: new Float32Array(128).fill(descriptor),
+    expressions: {}
+  };
+};
+
+describe('LivenessService.analyze', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes a blink and recognises the best open-eyed frame', () => {
+    const result = LivenessService.analyze([
+      frame({ ear: 0.3, score: 0.8 }),
+      frame({ ear: 0.1, score: 0.99, shift: 1 }),
+      frame({ ear: 0.3, score: 0.95 })
+    ]);
+
+    expect(result).toMatchObject({ passed: true, blinkDetected: true, headTurnDetected: false, bestFrameIndex: 2 });
+    expect(result.descriptor).toBeInstanceOf(Float32Array);
+  });
+
+  it('passes a head turn without a blink', () => {
+    const result = LivenessService.analyze([
+      frame({ yaw: 0.5 }),
+      frame({ yaw: 0.4, shift: -2 }),
+      frame({ yaw: 0.32, shift: -4 })
+    ]);
+
+    expect(result).toMatchObject({ passed: true, blinkDetected: false, headTurnDetected: true, reason: 'Head turn detected' });
+  });
+
+  it('rejects identical frames as a static image, even when the photo is moved around', () => {
+    const result = LivenessService.analyze([frame(), frame({ offset: 15 }), frame({ offset: 30 })]);
+
+    expect(result).toMatchObject({ passed: false, code: 'LIVENESS_STATIC_IMAGE' });
+    expect(result.motionScore).toBeCloseTo(0, 10);
+    expect(result.descriptor).toBeUndefined();
+  });
+
+  it('rejects movement without a blink or head turn', () => {
+    const result = LivenessService.analyze([frame(), frame({ shift: 2 }), frame({ shift: 4 })]);
+
+    expect(result.motionScore).toBeGreaterThan(0.01);
+    expect(result).toMatchObject({ passed: false, code: 'LIVENESS_NO_MOTION', blinkDetected: false, headTurnDetected: false });
+  });
+
+  it('rejects frames showing different faces', () => {
+    const result = LivenessService.analyze([frame(), frame({ ear: 0.1 }), frame({ descriptor: 0.5 })]);
+
+    expect(result).toMatchObject({ passed: false, code: 'LIVENESS_FACE_MISMATCH' });
+  });
+
+  it('requires the minimum number of frames', () => {
+    expect(LivenessService.analyze([frame(), frame({ ear: 0.1 })])).toMatchObject({
+      passed: false,
+      code: 'LIVENESS_INSUFFICIENT_FRAMES',
+      frameCount: 2
+    });
+  });
+});
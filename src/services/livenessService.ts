@@ -0,0 +1,180 @@
+import * as faceapi from 'face-api.js';
+import { detectFaces, preprocessImage } from '../middleware/faceRecognition';
+import { FaceDetectionResult, FaceDetectorOptions, LivenessResult } from '../types';
+import { Point, centroid, interOcularDistance, meanEyeAspectRatio, yawRatio } from '../utils/faceGeometry';
+
+/**
+ * Liveness Service
+ * Verifies that a burst of kiosk frames shows a live face (blink or head turn)
+ * using the 68-point landmarks computed by detectFaces
+ */
+
+export class LivenessService {
+  static get required(): boolean {
+    return process.env.LIVENESS_REQUIRED === 'true';
+  }
+
+  static get minFrames(): number {
+    return parseInt(process.env.LIVENESS_MIN_FRAMES || '3');
+  }
+
+  static get maxFrames(): number {
+    return parseInt(process.env.LIVENESS_MAX_FRAMES || '10');
+  }
+
+  private static get eyeClosedThreshold(): number {
+    return parseFloat(process.env.LIVENESS_EAR_CLOSED || '0.2');
+  }
+
+  private static get eyeOpenThreshold(): number {
+    return parseFloat(process.env.LIVENESS_EAR_OPEN || '0.25');
+  }
+
+  private static get headTurnThreshold(): number {
+    return parseFloat(process.env.LIVENESS_YAW_DELTA || '0.12');
+  }
+
+  private static get staticMotionThreshold(): number {
+    return parseFloat(process.env.LIVENESS_STATIC_MOTION || '0.01');
+  }
+
+  /**
+   * Mean landmark displacement between two frames, normalised by inter-ocular distance
+   */
+  static landmarkMotion(previous: Point[], current: Point[]): number {
+    const interOcular = interOcularDistance(current);
+    if (interOcular === 0) {
+      return 0;
+    }
+
+    // Remove global translation so a hand-held photo moved around still counts as static
+    const previousCenter = centroid(previous);
+    const currentCenter = centroid(current);
+
+    const total = current.reduce((sum, point, i) => {
+      const dx = (point.x - currentCenter.x) - (previous[i].x - previousCenter.x);
+      const dy = (point.y - currentCenter.y) - (previous[i].y - previousCenter.y);
+      return sum + Math.hypot(dx, dy);
+    }, 0);
+
+    return total / current.length / interOcular;
+  }
+
+  /**
+   * Run liveness analysis on a burst of base64 encoded frames
+   */
+  static async checkFrames(frames: string[], detector?: FaceDetectorOptions): Promise<LivenessResult> {
+    const detections: FaceDetectionResult[] = [];
+
+    for (const frame of frames) {
+      const imageBuffer = Buffer.from(frame.split(',')[1], 'base64');
+      const processedImage = await preprocessImage(imageBuffer);
+      const faces = await detectFaces(processedImage.image, detector);
+
+      if (faces.length !== 1 || !faces[0].landmarks) {
+        return this.fail('LIVENESS_FACE_LOST', 'Exactly one face must be visible in every frame', frames.length);
+      }
+
+      detections.push(faces[0]);
+    }
+
+    return this.analyze(detections);
+  }
+
+  /**
+   * Analyze per-frame detections for blink and head-turn motion
+   */
+  static analyze(detections: FaceDetectionResult[]): LivenessResult {
+    const frameCount = detections.length;
+
+    if (frameCount < this.minFrames) {
+      return this.fail('LIVENESS_INSUFFICIENT_FRAMES', `At least ${this.minFrames} frames are required for liveness check`, frameCount);
+    }
+
+    // All frames must show the same person, otherwise frames could be spliced together
+    const reference = detections[0].descriptor;
+    const mismatch = detections.some(d => faceapi.euclideanDistance(reference, d.descriptor) >= 0.6);
+    if (mismatch) {
+      return this.fail('LIVENESS_FACE_MISMATCH', 'Different faces detected across frames', frameCount);
+    }
+
+    const landmarks: Point[][] = detections.map(d => d.landmarks.positions);
+
+    const eyeRatios = landmarks.map(positions => meanEyeAspectRatio(positions));
+    const yawRatios = landmarks.map(positions => yawRatio(positions));
+
+    let motionTotal = 0;
+    for (let i = 1; i < landmarks.length; i++) {
+      motionTotal += this.landmarkMotion(landmarks[i - 1], landmarks[i]);
+    }
+    const motionScore = motionTotal / (landmarks.length - 1);
+
+    const blinkDetected =
+      Math.min(...eyeRatios) <= this.eyeClosedThreshold &&
+      Math.max(...eyeRatios) >= this.eyeOpenThreshold;
+    const headTurnDetected = Math.max(...yawRatios) - Math.min(...yawRatios) >= this.headTurnThreshold;
+
+    // Use the sharpest open-eyed frame for recognition
+    let bestFrameIndex = 0;
+    detections.forEach((detection, i) => {
+      const best = detections[bestFrameIndex];
+      const isOpen = eyeRatios[i] >= this.eyeOpenThreshold;
+      const bestIsOpen = eyeRatios[bestFrameIndex] >= this.eyeOpenThreshold;
+      if ((isOpen && !bestIsOpen) || (isOpen === bestIsOpen && detection.detection.score > best.detection.score)) {
+        bestFrameIndex = i;
+      }
+    });
+
+    const result = {
+      frameCount,
+      blinkDetected,
+      headTurnDetected,
+      motionScore,
+      bestFrameIndex,
+      descriptor: detections[bestFrameIndex].descriptor
+    };
+
+    console.log(`👁️ Liveness: blink=${blinkDetected}, headTurn=${headTurnDetected}, motion=${motionScore.toFixed(4)}`);
+
+    if (motionScore < this.staticMotionThreshold) {
+      return {
+        ...result,
+        passed: false,
+        code: 'LIVENESS_STATIC_IMAGE',
+        reason: 'No facial movement detected. A live face is required.',
+        descriptor: undefined
+      };
+    }
+
+    if (!blinkDetected && !headTurnDetected) {
+      return {
+        ...result,
+        passed: false,
+        code: 'LIVENESS_NO_MOTION',
+        reason: 'Please blink or turn your head slightly while the frames are captured.',
+        descriptor: undefined
+      };
+    }
+
+    return {
+      ...result,
+      passed: true,
+      reason: blinkDetected ? 'Blink detected' : 'Head turn detected'
+    };
+  }
+
+  private static fail(code: LivenessResult['code'], reason: string, frameCount: number): LivenessResult {
+    return {
+      passed: false,
+      code,
+      reason,
+      frameCount,
+      blinkDetected: false,
+      headTurnDetected: false,
+      motionScore: 0,
+      bestFrameIndex: 0
+    };
+  }
+}
+
+export default LivenessService;
@@ -0,0 +1,136 @@
+import Attendance from '../models/Attendance';
+import RollCall from '../models/RollCall';
+import Student from '../models/Student';
+import { AcademicCalendarService } from './academicCalendarService';
+import { LeaveService } from './leaveService';
+import { rollCall } from './rollCallService';
+
+describe('RollCallService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('closeRegister', () => {
+    const day = new Date(2026, 9, 19);
+
+    const students = [
+      { _id: 'asha', studentId: 'MCA001', course: 'MCA' },
+      { _id: 'ravi', studentId: 'MCA002', course: 'MCA' },
+      { _id: 'meera', studentId: 'MCA003', course: 'MCA' },
+      { _id: 'kiran', studentId: 'MCA004', course: 'MCA' },
+      { _id: 'arjun', studentId: 'MBA001', course: 'MBA' }
+    ];
+
+    let register: any;
+    let saved: any[];
+
+    // Asha attended, Meera is on leave, Kiran was marked absent by an interrupted run, MBA had no classes
+    const mockDay = (records = [{ student: 'asha', status: 'late' }, { student: 'kiran', status: 'absent' }]) => {
+      register = { _id: 'register', date: day, absent: 0, excused: 0, save: jest.fn().mockResolvedValue(undefined) };
+      saved = [];
+
+      jest.spyOn(RollCall, 'create').mockResolvedValue(register);
+      jest.spyOn(RollCall, 'deleteOne').mockResolvedValue({} as any);
+      jest.spyOn(Student, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue(students) } as any);
+      jest.spyOn(AcademicCalendarService, 'loadResolver').mockResolvedValue(
+        (date: Date, course?: string) => ({ date: AcademicCalendarService.dayKey(date), type: course === 'MBA' ? 'holiday' : 'working' })
+      );
+      jest.spyOn(Attendance, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue(records) } as any);
+      jest.spyOn(LeaveService, 'loadResolver').mockResolvedValue(
+        (studentMongoId: string) => (studentMongoId === 'meera' ? { _id: 'leave' } as any : undefined)
+      );
+      jest.spyOn(Attendance.prototype, 'save').mockImplementation(async function(this: any) {
+        saved.push(this);
+        return this;
+      });
+    };
+
+    const close = () => rollCall.closeRegister(new Date(2026, 9, 19, 23, 30), 'admin-id');
+
+    it('claims the register for the day and counts only students whose course had classes', async () => {
+      mockDay();
+
+      expect(await close()).toBe(register);
+
+      expect(RollCall.create).toHaveBeenCalledWith({ date: day, closedBy: 'admin-id' });
+      expect(Student.find).toHaveBeenCalledWith({ isActive: true, enrolledAt: { $lt: new Date(2026, 9, 20) } });
+      expect(Attendance.find).toHaveBeenCalledWith({
+        student: { $in: ['asha', 'ravi', 'meera', 'kiran'] },
+        date: { $gte: day, $lt: new Date(2026, 9, 20) }
+      });
+      expect(register).toMatchObject({ expected: 4, present: 1, absent: 2, excused: 1 });
+      expect(register.save).toHaveBeenCalled();
+    });
+
+    it('writes absent records only for students not yet marked absent', async () => {
+      mockDay();
+      await close();
+
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ student: 'ravi', studentId: 'MCA002', course: 'MCA', status: 'absent', date: day });
+    });
+
+    it('excuses students on leave who only have an absent record', async () => {
+      mockDay([{ student: 'meera', status: 'absent' }]);
+      await close();
+
+      expect(register).toMatchObject({ present: 0, absent: 3, excused: 1 });
+      expect(saved.map(record => record.student)).toEqual(['asha', 'ravi', 'kiran']);
+    });
+
+    it('returns null when the register was already closed', async () => {
+      jest.spyOn(RollCall, 'create').mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+      const find = jest.spyOn(Student, 'find');
+
+      expect(await rollCall.closeRegister(day)).toBeNull();
+      expect(find).not.toHaveBeenCalled();
+    });
+
+    it('reopens the register when closing it fails', async () => {
+      mockDay();
+      jest.mocked(Attendance.prototype.save).mockRejectedValue(new Error('write failed'));
+
+      await expect(close()).rejects.toThrow('write failed');
+      expect(RollCall.deleteOne).toHaveBeenCalledWith({ _id: 'register' });
+    });
+  });
+
+  describe('clearAbsences', () => {
+    const studentMongoId = '64b7f0c2a1b2c3d4e5f60718';
+
+    it('deletes the absent records and moves them out of the register totals', async () => {
+      const absences = [
+        { _id: 'absence-1', date: new Date(2026, 9, 12) },
+        { _id: 'absence-2', date: new Date(2026, 9, 13) }
+      ];
+      jest.spyOn(Attendance, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue(absences) } as any);
+      const deleteMany = jest.spyOn(Attendance, 'deleteMany').mockResolvedValue({ deletedCount: 2 } as any);
+      const updateOne = jest.spyOn(RollCall, 'updateOne').mockResolvedValue({} as any);
+
+      const cleared = await rollCall.clearAbsences(studentMongoId, new Date(2026, 9, 12, 15), new Date(2026, 9, 13), 'excused');
+
+      expect(cleared).toBe(2);
+      expect(Attendance.find).toHaveBeenCalledWith({
+        student: studentMongoId,
+        status: 'absent',
+        date: { $gte: new Date(2026, 9, 12), $lt: new Date(2026, 9, 14) }
+      });
+      expect(deleteMany).toHaveBeenCalledWith({ _id: { $in: ['absence-1', 'absence-2'] } });
+      expect(updateOne).toHaveBeenCalledTimes(2);
+      expect(updateOne).toHaveBeenCalledWith(
+        { date: new Date(2026, 9, 12), absent: { $gt: 0 } },
+        { $inc: { absent: -1, excused: 1 } }
+      );
+    });
+
+    it('leaves the registers alone when there was no absence', async () => {
+      jest.spyOn(Attendance, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue([]) } as any);
+      const deleteMany = jest.spyOn(Attendance, 'deleteMany');
+      const updateOne = jest.spyOn(RollCall, 'updateOne');
+
+      expect(await rollCall.clearAbsences(studentMongoId, new Date(2026, 9, 12), new Date(2026, 9, 12), 'present')).toBe(0);
+      expect(deleteMany).not.toHaveBeenCalled();
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
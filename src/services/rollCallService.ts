@@ -0,0 +1,258 @@
+import Attendance, { ATTENDED_STATUSES } from '../models/Attendance';
+import RollCall from '../models/RollCall';
+import Student from '../models/Student';
+import { AcademicCalendarService } from './academicCalendarService';
+import { LeaveService } from './leaveService';
+import { eventService } from './eventService';
+import { IRollCall, RollCallStatus } from '../types';
+
+/**
+ * Roll Call Service
+ * Closes the register once a day is over: every active, enrolled student whose
+ * course had classes, who did not turn up and is not on approved leave gets an
+ * explicit absent record. Historical absence then no longer depends on who is
+ * active today or which course they are in now.
+ *
+ * Only finished days are closed, so kiosks never meet an absent record; days
+ * missed while the server was down are caught up on the next run.
+ */
+class RollCallService {
+  private static instance: RollCallService;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt: Date | null = null;
+  private lastClosed = 0;
+
+  private constructor() {}
+
+  public static getInstance(): RollCallService {
+    if (!RollCallService.instance) {
+      RollCallService.instance = new RollCallService();
+    }
+    return RollCallService.instance;
+  }
+
+  public get enabled(): boolean {
+    return process.env.ROLL_CALL_ENABLED !== 'false';
+  }
+
+  public get intervalMinutes(): number {
+    return Math.max(1, parseInt(process.env.ROLL_CALL_INTERVAL_MINUTES || '60'));
+  }
+
+  // How many finished days back a run looks for registers left open
+  public get catchUpDays(): number {
+    return Math.max(1, parseInt(process.env.ROLL_CALL_CATCH_UP_DAYS || '7'));
+  }
+
+  /**
+   * Run once now and then every ROLL_CALL_INTERVAL_MINUTES
+   */
+  public start(): void {
+    if (this.timer || !this.enabled) {
+      if (!this.enabled) {
+        console.log('⚠️ Daily roll call is disabled');
+      }
+      return;
+    }
+
+    this.timer = setInterval(() => this.runSafely(), this.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+    this.runSafely();
+
+    console.log(`📋 Daily roll call scheduled every ${this.intervalMinutes} minutes (catching up ${this.catchUpDays} days)`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public getStatus(): RollCallStatus {
+    return {
+      enabled: this.enabled,
+      intervalMinutes: this.intervalMinutes,
+      catchUpDays: this.catchUpDays,
+      lastRunAt: this.lastRunAt,
+      lastClosed: this.lastClosed
+    };
+  }
+
+  private async runSafely(): Promise<void> {
+    try {
+      await this.run();
+    } catch (error: any) {
+      eventService.emitError({
+        error: error.message,
+        context: 'roll-call',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Close every finished day in the catch-up window that is still open;
+   * returns the number of registers closed
+   */
+  public async run(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const today = AcademicCalendarService.startOfDay(now);
+      const from = new Date(today);
+      from.setDate(from.getDate() - this.catchUpDays);
+
+      const closedDays = new Set(
+        (await RollCall.find({ date: { $gte: from, $lt: today } }).select('date'))
+          .map(rollCall => AcademicCalendarService.dayKey(rollCall.date))
+      );
+
+      let closed = 0;
+      for (const day = new Date(from); day < today; day.setDate(day.getDate() + 1)) {
+        if (closedDays.has(AcademicCalendarService.dayKey(day))) continue;
+
+        const rollCall = await this.closeRegister(day);
+        if (rollCall) {
+          closed++;
+          console.log(`📋 Register for ${day.toDateString()} closed: ${rollCall.absent} absent, ${rollCall.excused} excused`);
+        }
+      }
+
+      this.lastRunAt = now;
+      this.lastClosed = closed;
+
+      return closed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  public async findRollCall(date: Date): Promise<IRollCall | null> {
+    return RollCall.findOne({ date: AcademicCalendarService.startOfDay(date) });
+  }
+
+  /**
+   * Write absent records for a finished day; returns null when the register
+   * was already closed
+   */
+  public async closeRegister(date: Date, closedBy?: string): Promise<IRollCall | null> {
+    const day = AcademicCalendarService.startOfDay(date);
+    const nextDay = new Date(day);
+    nextDay.setDate(nextDay.getDate() + 1);
+
+    // The unique date claims the register, so two runs never close the same day
+    let rollCall: IRollCall;
+    try {
+      rollCall = await RollCall.create({ date: day, closedBy });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const students = await Student.find({
+        isActive: true,
+        enrolledAt: { $lt: nextDay }
+      }).select('_id studentId course');
+
+      const resolveDay = await AcademicCalendarService.loadResolver(day, day);
+      const expectedStudents = students.filter(student => resolveDay(day, student.course).type === 'working');
+
+      const records = await Attendance.find({
+        student: { $in: expectedStudents.map(student => student._id.toString()) },
+        date: { $gte: day, $lt: nextDay }
+      }).select('student status');
+      const recorded = new Set(records.map(record => record.student.toString()));
+      const present = new Set(
+        records
+          .filter(record => ATTENDED_STATUSES.includes(record.status))
+          .map(record => record.student.toString())
+      );
+
+      const resolveLeave = await LeaveService.loadResolver(day, day);
+
+      for (const student of expectedStudents) {
+        const studentMongoId = student._id.toString();
+        if (present.has(studentMongoId)) continue;
+
+        if (resolveLeave(studentMongoId, day)) {
+          rollCall.excused++;
+          continue;
+        }
+
+        rollCall.absent++;
+        // Already marked absent by an earlier, interrupted run
+        if (recorded.has(studentMongoId)) continue;
+
+        await new Attendance({
+          student: studentMongoId,
+          studentId: student.studentId,
+          date: day,
+          status: 'absent',
+          course: student.course,
+          notes: 'Marked absent at roll call'
+        }).save();
+      }
+
+      rollCall.expected = expectedStudents.length;
+      rollCall.present = present.size;
+      await rollCall.save();
+
+      return rollCall;
+    } catch (error) {
+      // Leave the register open so the next run retries it
+      await RollCall.deleteOne({ _id: rollCall._id });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove absent records once a student's day is accounted for, e.g. by
+   * approved leave or a manual entry, and keep the closed registers in step
+   */
+  public async clearAbsences(
+    studentMongoId: string,
+    from: Date,
+    to: Date,
+    accountedAs: 'present' | 'excused'
+  ): Promise<number> {
+    const end = AcademicCalendarService.startOfDay(to);
+    end.setDate(end.getDate() + 1);
+
+    const absences = await Attendance.find({
+      student: studentMongoId,
+      status: 'absent',
+      date: { $gte: AcademicCalendarService.startOfDay(from), $lt: end }
+    }).select('_id date');
+    if (absences.length === 0) {
+      return 0;
+    }
+
+    const result = await Attendance.deleteMany({ _id: { $in: absences.map(absence => absence._id) } });
+    await this.moveAbsentees(absences.map(absence => absence.date), accountedAs);
+    return result.deletedCount;
+  }
+
+  /**
+   * Move one absentee per day to present or excused in the register totals
+   */
+  public async moveAbsentees(days: Date[], accountedAs: 'present' | 'excused'): Promise<void> {
+    for (const day of days) {
+      await RollCall.updateOne(
+        { date: AcademicCalendarService.startOfDay(day), absent: { $gt: 0 } },
+        { $inc: { absent: -1, [accountedAs]: 1 } }
+      );
+    }
+  }
+}
+
+export const rollCall = RollCallService.getInstance();
+export default rollCall;
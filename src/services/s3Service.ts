@@ -191,6 +191,35 @@ class S3Service {
     return await this.uploadBase64Image(base64Data, options);
   }
 
+  /**
+   * Upload image for an additional face template in a student's gallery
+   */
+  async uploadFaceTemplateImage(
+    base64Data: string, 
+    studentId: string,
+    studentName: string,
+    mongoId: string
+  ): Promise<S3UploadResult> {
+    const sanitizedName = this.sanitizeFolderName(studentName);
+    const folderPath = `students/${sanitizedName}/${mongoId}/images`;
+    
+    const options: ImageUploadOptions = {
+      bucket: this.bucketName,
+      folder: folderPath,
+      fileName: `template_${Date.now()}.jpg`,
+      contentType: 'image/jpeg',
+      metadata: {
+        studentId,
+        studentName,
+        mongoId,
+        type: 'face-template',
+        uploadedAt: new Date().toISOString()
+      }
+    };
+
+    return await this.uploadBase64Image(base64Data, options);
+  }
+
   /**
    * Upload attendance image for daily check-in/checkout
    */
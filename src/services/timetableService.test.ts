@@ -0,0 +1,114 @@
+import ClassSession from '../models/ClassSession';
+import { TimetableService } from './timetableService';
+
+// Monday 19 October 2026
+const MONDAY = 1;
+const at = (hours: number, minutes: number) => new Date(2026, 9, 19, hours, minutes);
+
+const session = (subject: string, startTime: string, endTime: string, overrides: Record<string, unknown> = {}) => ({
+  _id: subject.toLowerCase(),
+  course: 'MCA',
+  subject,
+  weekday: MONDAY,
+  startTime,
+  endTime,
+  isActive: true,
+  ...overrides
+});
+
+const timetable = [
+  session('Algorithms', '09:00', '10:00'),
+  session('Networks', '10:15', '11:15'),
+  session('Databases', '10:10', '11:00')
+];
+
+describe('TimetableService', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.SESSION_CHECKIN_EARLY_MINUTES;
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveSession', () => {
+    beforeEach(() => {
+      jest.spyOn(ClassSession, 'find').mockResolvedValue(timetable as any);
+    });
+
+    it('looks up the active sessions of the course for the weekday', async () => {
+      await TimetableService.resolveSession('MCA', at(9, 30));
+
+      expect(ClassSession.find).toHaveBeenCalledWith({ course: 'MCA', weekday: MONDAY, isActive: true });
+    });
+
+    it('returns the period in progress', async () => {
+      expect(await TimetableService.resolveSession('MCA', at(9, 30))).toMatchObject({ subject: 'Algorithms' });
+      expect(await TimetableService.resolveSession('MCA', at(10, 30))).toMatchObject({ subject: 'Networks' });
+    });
+
+    it('prefers the period in progress over one about to start', async () => {
+      expect(await TimetableService.resolveSession('MCA', at(9, 55))).toMatchObject({ subject: 'Algorithms' });
+    });
+
+    it('returns the earliest period starting within the check-in window', async () => {
+      expect(await TimetableService.resolveSession('MCA', at(10, 2))).toMatchObject({ subject: 'Databases' });
+    });
+
+    it('returns null outside class hours', async () => {
+      expect(await TimetableService.resolveSession('MCA', at(8, 30))).toBeNull();
+      expect(await TimetableService.resolveSession('MCA', at(11, 15))).toBeNull();
+    });
+
+    it('uses the configured check-in window', async () => {
+      process.env.SESSION_CHECKIN_EARLY_MINUTES = '45';
+
+      expect(await TimetableService.resolveSession('MCA', at(8, 30))).toMatchObject({ subject: 'Algorithms' });
+    });
+  });
+
+  describe('validateRequestedSession', () => {
+    const check = (found: unknown, time: Date) => {
+      jest.spyOn(ClassSession, 'findById').mockResolvedValue(found as any);
+      return TimetableService.validateRequestedSession('session-id', 'MCA', time);
+    };
+
+    it('accepts a session of the course in progress or about to start', async () => {
+      expect(await check(timetable[0], at(8, 50))).toEqual({ session: timetable[0] });
+      expect(await check(timetable[0], at(9, 59))).toEqual({ session: timetable[0] });
+    });
+
+    it('rejects an unknown or deactivated session', async () => {
+      expect(await check(null, at(9, 30))).toEqual({ error: 'Class session not found' });
+      expect(await check({ ...timetable[0], isActive: false }, at(9, 30))).toEqual({ error: 'Class session not found' });
+    });
+
+    it('rejects a session of another course', async () => {
+      expect(await check({ ...timetable[0], course: 'MBA' }, at(9, 30))).toEqual({ error: 'This class is for MBA' });
+    });
+
+    it('rejects a session that is not scheduled now', async () => {
+      expect(await check(timetable[0], at(10, 0))).toEqual({ error: 'Algorithms is not scheduled now' });
+      expect(await check({ ...timetable[0], weekday: MONDAY + 1 }, at(9, 30))).toEqual({ error: 'Algorithms is not scheduled now' });
+    });
+  });
+
+  describe('countOccurrences', () => {
+    it('counts the weekday between two dates inclusively', () => {
+      // Mondays in October 2026: 5, 12, 19, 26
+      expect(TimetableService.countOccurrences(MONDAY, new Date(2026, 9, 1), new Date(2026, 9, 31))).toBe(4);
+      expect(TimetableService.countOccurrences(MONDAY, new Date(2026, 9, 19, 15), new Date(2026, 9, 19, 8))).toBe(1);
+      expect(TimetableService.countOccurrences(MONDAY, new Date(2026, 9, 20), new Date(2026, 9, 25))).toBe(0);
+    });
+
+    it('skips dates the class was not held', () => {
+      const isHeld = (date: Date) => date.getDate() !== 12;
+
+      expect(TimetableService.countOccurrences(MONDAY, new Date(2026, 9, 1), new Date(2026, 9, 31), isHeld)).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import ClassSession from '../models/ClassSession';
+import Attendance, { ATTENDED_STATUSES } from '../models/Attendance';
+import Student from '../models/Student';
+import { AcademicCalendarService } from './academicCalendarService';
+import {
+  ClassSessionSummary,
+  IClassSession,
+  SubjectAttendanceReport,
+  SubjectAttendanceReportItem
+} from '../types';
+
+/**
+ * Timetable Service
+ * Resolves which class period a kiosk scan belongs to and builds per-subject reports
+ */
+
+export class TimetableService {
+  // Students may check in this many minutes before a period starts
+  static get checkInEarlyMinutes(): number {
+    return parseInt(process.env.SESSION_CHECKIN_EARLY_MINUTES || '15');
+  }
+
+  static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  static summarize(session: IClassSession): ClassSessionSummary {
+    return {
+      _id: session._id.toString(),
+      subject: session.subject,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      room: session.room
+    };
+  }
+
+  /**
+   * Find an active session of the same course and weekday whose period overlaps
+   */
+  static async findOverlappingSession(params: {
+    course: string;
+    weekday: number;
+    startTime: string;
+    endTime: string;
+    excludeId?: string;
+  }): Promise<IClassSession | null> {
+    const query: any = {
+      course: params.course,
+      weekday: params.weekday,
+      isActive: true,
+      startTime: { $lt: params.endTime },
+      endTime: { $gt: params.startTime }
+    };
+
+    if (params.excludeId) {
+      query._id = { $ne: params.excludeId };
+    }
+
+    return ClassSession.findOne(query);
+  }
+
+  /**
+   * Pick the class period a scan at `at` belongs to for a student's course
+   * A period in progress wins over one about to start; returns null outside class
+   * hours so the scan is recorded as whole-day attendance
+   */
+  static async resolveSession(course: string, at: Date = new Date()): Promise<IClassSession | null> {
+    const sessions = await ClassSession.find({ course, weekday: at.getDay(), isActive: true });
+    const minutes = at.getHours() * 60 + at.getMinutes();
+
+    let upcoming: IClassSession | null = null;
+
+    for (const session of sessions) {
+      const start = this.toMinutes(session.startTime);
+      const end = this.toMinutes(session.endTime);
+
+      if (minutes >= start && minutes < end) {
+        return session;
+      }
+
+      if (minutes >= start - this.checkInEarlyMinutes && minutes < start) {
+        if (!upcoming || start < this.toMinutes(upcoming.startTime)) {
+          upcoming = session;
+        }
+      }
+    }
+
+    return upcoming;
+  }
+
+  /**
+   * Load a session chosen on the kiosk and check it applies to the student right now
+   * Returns an error message when it does not
+   */
+  static async validateRequestedSession(
+    sessionId: string,
+    course: string,
+    at: Date = new Date()
+  ): Promise<{ session?: IClassSession; error?: string }> {
+    const session = await ClassSession.findById(sessionId);
+
+    if (!session || !session.isActive) {
+      return { error: 'Class session not found' };
+    }
+
+    if (session.course !== course) {
+      return { error: `This class is for ${session.course}` };
+    }
+
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const start = this.toMinutes(session.startTime) - this.checkInEarlyMinutes;
+    if (session.weekday !== at.getDay() || minutes < start || minutes >= this.toMinutes(session.endTime)) {
+      return { error: `${session.subject} is not scheduled now` };
+    }
+
+    return { session };
+  }
+
+  /**
+   * Session a kiosk scan is recorded against: the one chosen on the kiosk, or the
+   * period in progress for the student's course; null means whole-day attendance
+   */
+  static async resolveScanSession(
+    course: string,
+    requestedSessionId?: string,
+    at: Date = new Date()
+  ): Promise<{ session: IClassSession | null; error?: string }> {
+    if (requestedSessionId) {
+      const requested = await this.validateRequestedSession(requestedSessionId, course, at);
+      return { session: requested.session || null, error: requested.error };
+    }
+
+    return { session: await this.resolveSession(course, at) };
+  }
+
+  /**
+   * Number of times a weekly session fell between two dates (inclusive)
+   * `isHeld` skips dates the class did not take place, e.g. holidays
+   */
+  static countOccurrences(weekday: number, from: Date, to: Date, isHeld?: (date: Date) => boolean): number {
+    const current = new Date(from);
+    current.setHours(0, 0, 0, 0);
+    const end = new Date(to);
+    end.setHours(0, 0, 0, 0);
+
+    current.setDate(current.getDate() + (weekday - current.getDay() + 7) % 7);
+
+    let count = 0;
+    while (current <= end) {
+      if (!isHeld || isHeld(current)) {
+        count++;
+      }
+      current.setDate(current.getDate() + 7);
+    }
+
+    return count;
+  }
+
+  /**
+   * Attendance per subject for a course, or for one student of that course
+   */
+  static async getSubjectReport(params: {
+    course: string;
+    studentMongoId?: string;
+    startDate: Date;
+    endDate: Date;
+  }): Promise<SubjectAttendanceReport> {
+    const { course, studentMongoId } = params;
+
+    const startDate = new Date(params.startDate);
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(params.endDate);
+    endDate.setHours(23, 59, 59, 999);
+
+    let student: SubjectAttendanceReport['student'];
+    let studentCount: number;
+
+    if (studentMongoId) {
+      const found = await Student.findById(studentMongoId).select('studentId name');
+      student = found ? { _id: found._id.toString(), studentId: found.studentId, name: found.name } : undefined;
+      studentCount = found ? 1 : 0;
+    } else {
+      studentCount = await Student.countDocuments({ course, isActive: true });
+    }
+
+    // Sessions that existed during the range; deactivated ones still count until they were switched off
+    const sessions = await ClassSession.find({ course, createdAt: { $lte: endDate } });
+
+    const attendanceMatch: any = {
+      session: { $in: sessions.map(session => session._id.toString()) },
+      date: { $gte: startDate, $lte: endDate },
+      status: { $in: ATTENDED_STATUSES }
+    };
+    if (studentMongoId) {
+      attendanceMatch.student = studentMongoId;
+    }
+
+    const attendedBySession = await Attendance.aggregate([
+      { $match: attendanceMatch },
+      {
+        $group: {
+          _id: '$session',
+          attended: { $sum: 1 },
+          late: { $sum: { $cond: [{ $eq: ['$status', 'late'] }, 1, 0] } },
+          manual: { $sum: { $cond: [{ $eq: ['$biometricMethod', 'manual'] }, 1, 0] } }
+        }
+      }
+    ]);
+    const attendedMap = new Map<string, { attended: number; late: number; manual: number }>(
+      attendedBySession.map(row => [row._id, { attended: row.attended, late: row.late, manual: row.manual }])
+    );
+
+    const subjects = new Map<string, SubjectAttendanceReportItem>();
+
+    // Classes are not held on the course's holidays or vacations
+    const resolveDay = await AcademicCalendarService.loadResolver(startDate, endDate);
+    const isWorkingDay = (date: Date) => resolveDay(date, course).type === 'working';
+
+    for (const session of sessions) {
+      const from = session.createdAt > startDate ? session.createdAt : startDate;
+      const to = !session.isActive && session.updatedAt < endDate ? session.updatedAt : endDate;
+      const held = this.countOccurrences(session.weekday, from, to, isWorkingDay);
+
+      const item = subjects.get(session.subject) || {
+        subject: session.subject,
+        sessionsScheduled: 0,
+        expectedAttendances: 0,
+        attended: 0,
+        late: 0,
+        manual: 0,
+        absent: 0,
+        attendancePercentage: 0
+      };
+
+      item.sessionsScheduled += held;
+      item.expectedAttendances += held * studentCount;
+      const attendance = attendedMap.get(session._id.toString());
+      item.attended += attendance?.attended || 0;
+      item.late += attendance?.late || 0;
+      item.manual += attendance?.manual || 0;
+      subjects.set(session.subject, item);
+    }
+
+    const items = Array.from(subjects.values())
+      .map(item => ({
+        ...item,
+        absent: Math.max(0, item.expectedAttendances - item.attended),
+        attendancePercentage: item.expectedAttendances > 0
+          ? Math.round((item.attended / item.expectedAttendances) * 10000) / 100
+          : 0
+      }))
+      .sort((a, b) => a.subject.localeCompare(b.subject));
+
+    return {
+      course,
+      student,
+      startDate: startDate.toISOString().split('T')[0],
+      endDate: endDate.toISOString().split('T')[0],
+      studentCount,
+      subjects: items
+    };
+  }
+}
+
+export default TimetableService;
@@ -1,5 +1,101 @@
 import { Document } from 'mongoose';
 
+export type UserRole = 'admin' | 'teacher';
+
+export interface IUser extends Document {
+  _id: string;
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  isActive: boolean;
+  tokenVersion: number; // bumped on logout/password change to revoke refresh tokens
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface IDevice extends Document {
+  _id: string;
+  name: string;
+  location: string;
+  secretKey: string;
+  isEnabled: boolean;
+  keyRotatedAt: Date;
+  lastSeenAt?: Date;
+  lastSeenIp?: string;
+  registeredBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Nonce a kiosk has already signed a request with; kept until its timestamp leaves the skew window
+export interface IDeviceNonce extends Document {
+  device: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface AuthenticatedDevice {
+  id: string;
+  name: string;
+  location: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+      device?: AuthenticatedDevice;
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export type FaceTemplateSource = 'enrollment' | 're-enrollment';
+
+export interface IFaceTemplate {
+  _id: string;
+  descriptor: number[];
+  quality: number; // 0-1 capture quality score
+  source: FaceTemplateSource;
+  imageUrl?: string;
+  capturedAt: Date;
+}
+
+export interface IFingerprintCredential {
+  _id: string;
+  credentialId: string; // base64url
+  publicKey: string; // base64 COSE_Key, or DER SPKI for credentials moved from the legacy fields
+  algorithm?: number; // COSE algorithm identifier
+  counter: number;
+  label: string;
+  attestationFormat?: string;
+  aaguid?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revoked: boolean;
+  revokedAt?: Date;
+  revokedBy?: string; // user id of the staff member who revoked it
+}
+
+export interface IDuplicateFaceFlag {
+  student: string; // MongoDB id of the conflicting student
+  studentId: string;
+  name: string;
+  distance: number;
+  detectedAt: Date;
+}
+
 export interface IStudent extends Document {
   _id: string;
   studentId: string;
@@ -7,29 +103,95 @@ export interface IStudent extends Document {
   email: string;
   phone: string;
   course: string;
-  faceDescriptor?: number[];
+  faceDescriptor?: number[]; // most recent template, kept for backwards compatibility
+  faceTemplates: IFaceTemplate[];
+  duplicateFaceFlags: IDuplicateFaceFlag[];
   faceImage?: string;
   profileImageUrl?: string; // S3 URL for profile image
+  fingerprintCredentials: IFingerprintCredential[];
+  // Legacy single credential, moved into fingerprintCredentials on first use
   fingerprintCredentialId?: string;
-  fingerprintPublicKey?: string;
+  fingerprintPublicKey?: string; // base64 COSE_Key, or DER SPKI for older credentials
+  fingerprintAlgorithm?: number; // COSE algorithm identifier
   fingerprintCounter?: number;
+  webauthnUserId?: string; // base64url user handle used in WebAuthn ceremonies
   biometricMethods: ('face' | 'fingerprint')[];
   isActive: boolean;
   enrolledAt: Date;
   createdAt: Date;
   updatedAt: Date;
+  addFaceTemplate(template: Omit<IFaceTemplate, '_id' | 'capturedAt'> & { capturedAt?: Date }): IFaceTemplate;
+  removeFaceTemplate(templateId: string): boolean;
+  migrateLegacyFaceDescriptor(): boolean;
+  migrateLegacyFingerprint(): boolean;
+  addFingerprintCredential(registration: IVerifiedRegistration, label?: string): IFingerprintCredential;
+  findFingerprintCredential(credentialId: string): IFingerprintCredential | undefined;
+  revokeFingerprintCredential(id: string, revokedBy?: string): IFingerprintCredential | null;
+  activeFingerprintCredentialCount(): number;
+}
+
+export type WebAuthnChallengeType = 'registration' | 'authentication';
+
+export interface IVerifiedRegistration {
+  credentialId: string; // base64url
+  publicKey: string; // base64 COSE_Key
+  algorithm: number; // COSE algorithm identifier
+  counter: number;
+  attestationFormat: string;
+  aaguid?: string;
+  userVerified: boolean;
+}
+
+export interface IWebAuthnChallenge extends Document {
+  _id: string;
+  challenge: string; // base64url
+  type: WebAuthnChallengeType;
+  userHandle?: string; // base64url, registration only
+  student?: string; // student being registered, absent for new enrollments
+  device?: string; // kiosk the authentication challenge was issued to
+  createdBy?: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  registration?: IVerifiedRegistration; // verified credential awaiting enrollment
+  registrationConsumedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// manual: entered by staff when no scan was possible
+export type AttendanceMethod = 'face' | 'fingerprint' | 'manual';
+
+// One visit to campus (or class); a day can hold several when a student steps out and back in
+export interface IAttendanceInterval {
+  _id: string;
+  timeIn: Date;
+  timeOut?: Date;
+  autoCheckout?: boolean;
+  loginPhotoUrl?: string;
+  logoutPhotoUrl?: string;
 }
 
+// late: arrived after the grace period; half-day: arrived after the half-day cutoff;
+// early-leave: logged out before the minimum hours (or before the class ended)
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'half-day' | 'early-leave';
+
 export interface IAttendance extends Document {
   _id: string;
   student: string;
   studentId: string;
   date: Date;
-  timeIn: Date;
-  timeOut?: Date;
-  status: 'present' | 'absent';
+  timeIn?: Date; // first check-in of the day; unset on absent roll-call records
+  timeOut?: Date; // last check-out; unset while checked in
+  intervals: IAttendanceInterval[];
+  autoCheckout: boolean; // timeOut set by the end-of-day job, not a real logout
+  status: AttendanceStatus;
   confidence?: number;
-  biometricMethod: 'face' | 'fingerprint';
+  biometricMethod?: AttendanceMethod; // unset on absent roll-call records
+  course?: string; // course at the time, set on absent roll-call records
+  enteredBy?: string; // User id, manual entries only
+  manualReason?: string; // why the record was entered by hand
+  session?: string; // ClassSession id; absent for whole-day (gate) attendance
+  subject?: string; // copied from the session for reporting
   location: string;
   loginPhotoUrl?: string; // S3 URL for login photo
   logoutPhotoUrl?: string; // S3 URL for logout photo
@@ -37,10 +199,32 @@ export interface IAttendance extends Document {
   deviceInfo: {
     userAgent?: string;
     ip?: string;
+    device?: string;
+    deviceName?: string;
   };
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  ensureIntervals(): void;
+  openInterval(): IAttendanceInterval | undefined;
+  checkIn(at: Date, loginPhotoUrl?: string): IAttendanceInterval;
+  checkOut(at: Date, options?: { auto?: boolean; logoutPhotoUrl?: string }): IAttendanceInterval | null;
+  totalDuration(now?: Date): number;
+}
+
+export interface IClassSession extends Document {
+  _id: string;
+  course: string;
+  subject: string;
+  teacher?: string; // User id
+  weekday: number; // 0 = Sunday, as returned by Date#getDay
+  startTime: string; // HH:mm, server local time
+  endTime: string; // HH:mm
+  room?: string;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface FaceDetectionResult {
@@ -50,6 +234,104 @@ export interface FaceDetectionResult {
   expressions: any;
 }
 
+// Face detector backends shipped in models/
+export type FaceDetectorType = 'tiny' | 'ssd';
+
+export interface FaceDetectorOptions {
+  type?: FaceDetectorType;
+  inputSize?: number; // tiny only, multiple of 32
+  scoreThreshold?: number;
+}
+
+export type FaceDetectorPurpose = 'recognition' | 'enrollment';
+
+// Face Worker Pool Types
+export interface FaceWorkerRequest {
+  id: number;
+  image: Uint8Array;
+  detector: Required<FaceDetectorOptions>;
+}
+
+export type FaceWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'init-error'; error: string }
+  | { type: 'result'; id: number; detections: FaceDetectionResult[] }
+  | { type: 'error'; id: number; error: string };
+
+export interface FaceWorkerPoolMetrics {
+  enabled: boolean;
+  size: number;
+  readyWorkers: number;
+  busyWorkers: number;
+  queued: number;
+  queueLimit: number;
+  completed: number;
+  failed: number;
+  rejected: number; // refused because the queue was full
+  timedOut: number;
+  restarts: number;
+  averageWaitMs: number;
+  averageRunMs: number;
+}
+
+export type FaceQualityCheckName = 'faceCount' | 'faceSize' | 'detectionScore' | 'pose' | 'brightness' | 'sharpness';
+
+export interface FaceQualityCheck {
+  name: FaceQualityCheckName;
+  passed: boolean;
+  value: number;
+  threshold: number | [number, number];
+  message: string;
+}
+
+export interface FaceQualityReport {
+  passed: boolean;
+  score: number; // 0-1 overall quality, stored with the template
+  checks: FaceQualityCheck[];
+  reasons: string[]; // messages of the failed checks
+  measurements: {
+    faceWidth?: number;
+    faceHeight?: number;
+    detectionScore?: number;
+    yaw?: number; // 0 = frontal, 1 = full profile
+    roll?: number; // degrees
+    brightness?: number; // mean grey level 0-255
+    sharpness?: number; // variance of the Laplacian
+  };
+}
+
+export interface FaceTemplateExtraction {
+  descriptor: Float32Array;
+  quality: number;
+  qualityReport: FaceQualityReport;
+}
+
+// Both frames share the same geometry, so detections on one apply to the other
+export interface PreprocessedImage {
+  image: Buffer; // lighting-normalised frame detection runs on
+  original: Buffer; // EXIF-rotated frame before normalisation, for the quality gate
+}
+
+export type LivenessErrorCode =
+  | 'LIVENESS_REQUIRED'
+  | 'LIVENESS_INSUFFICIENT_FRAMES'
+  | 'LIVENESS_FACE_LOST'
+  | 'LIVENESS_FACE_MISMATCH'
+  | 'LIVENESS_STATIC_IMAGE'
+  | 'LIVENESS_NO_MOTION';
+
+export interface LivenessResult {
+  passed: boolean;
+  code?: LivenessErrorCode;
+  reason: string;
+  frameCount: number;
+  blinkDetected: boolean;
+  headTurnDetected: boolean;
+  motionScore: number; // mean landmark movement relative to inter-ocular distance
+  bestFrameIndex: number;
+  descriptor?: Float32Array;
+}
+
 export interface AttendanceResult {
   success: boolean;
   studentId?: string;
@@ -69,6 +351,7 @@ export interface LoginStatusResponse {
   timeIn?: Date;
   duration?: number; // in milliseconds
   location?: string;
+  autoCheckout?: boolean;
 }
 
 export interface ApiResponse<T = any> {
@@ -76,18 +359,23 @@ export interface ApiResponse<T = any> {
   message: string;
   data?: T;
   error?: string;
+  code?: string; // machine readable error code for clients that need to branch on it
 }
 
 export interface WeeklyTrendData {
   name: string;
   present: number;
   absent: number;
+  excused: number;
   date: string;
+  workingDay: boolean;
 }
 
 export interface DashboardStats {
   totalStudents: number;
   presentToday: number;
+  excusedToday: number;
+  statusToday: AttendanceStatusCounts;
   attendanceRate: number;
   recentAttendance: IAttendance[];
   weeklyTrend: WeeklyTrendData[];
@@ -99,11 +387,10 @@ export interface EnrollStudentRequest {
   phone: string;
   course: string;
   faceImage?: string;
-  fingerprintData?: {
-    credentialId: string;
-    publicKey: string;
-    counter: number;
-  };
+  allowDuplicateFace?: boolean; // admin override after reviewing a duplicate-face conflict
+  detector?: FaceDetectorOptions;
+  fingerprintRegistrationId?: string; // id returned by /api/fingerprint/register/verify
+  fingerprintLabel?: string; // e.g. "Right thumb"
 }
 
 export interface FingerprintVerificationRequest {
@@ -111,7 +398,80 @@ export interface FingerprintVerificationRequest {
   authenticatorData: string;
   clientDataJSON: string;
   signature: string;
-  userHandle?: string;
+  userHandle?: string; // base64url, returned for discoverable credentials
+}
+
+// WebAuthn Types
+export interface AuthenticatorDataFlags {
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  attestedCredentialData: boolean;
+  extensionData: boolean;
+}
+
+export interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: AuthenticatorDataFlags;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Map<any, any>; // COSE_Key
+    publicKeyBytes: Buffer; // COSE_Key as encoded by the authenticator
+  };
+  extensions?: unknown;
+}
+
+// WebAuthn Registration Types
+export interface RegistrationOptionsRequest {
+  student?: string; // MongoDB id when adding a credential to an existing student
+  name?: string; // display name for a student who is not enrolled yet
+}
+
+export interface PublicKeyCredentialCreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none' | 'direct';
+  authenticatorSelection: {
+    authenticatorAttachment?: 'platform' | 'cross-platform';
+    residentKey: 'discouraged' | 'preferred' | 'required';
+    requireResidentKey: boolean; // WebAuthn Level 1 browsers
+    userVerification: 'discouraged' | 'preferred' | 'required';
+  };
+  excludeCredentials: { type: 'public-key'; id: string }[];
+}
+
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId?: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+  };
+}
+
+export interface RegistrationVerifyRequest {
+  registrationId: string;
+  credential: RegistrationCredentialJSON;
+}
+
+export interface AssertionVerificationData {
+  signCount: number;
+  storedCounter: number;
+  userVerified: boolean;
+}
+
+export interface WebAuthnVerificationResult<T = undefined> {
+  verified: boolean;
+  error?: string;
+  code?: string;
+  data?: T;
 }
 
 export interface AbsentStudent {
@@ -123,10 +483,18 @@ export interface AbsentStudent {
   email: string;
 }
 
+export interface ExcusedStudent extends AbsentStudent {
+  leaveId: string;
+  leaveType: LeaveType;
+}
+
 export interface MarkAttendanceRequest {
   faceImage?: string;
+  frames?: string[]; // burst of base64 frames for liveness mode
+  detector?: FaceDetectorOptions;
   fingerprintData?: FingerprintVerificationRequest;
   biometricMethod: 'face' | 'fingerprint';
+  session?: string; // ClassSession id chosen on the kiosk; resolved from the timetable otherwise
   location?: string;
   notes?: string;
   action?: 'auto' | 'login' | 'logout';
@@ -161,9 +529,22 @@ export interface StudentListResponse {
 
 export interface AttendanceStats {
   totalDays: number;
-  presentDays: number;
-  absentDays: number;
-  attendancePercentage: number;
+  presentDays: number; // every attended day, including late, half and early-leave days
+  absentDays: number; // unexcused only
+  excusedDays: number; // missed days covered by approved leave
+  lateDays: number;
+  halfDays: number;
+  earlyLeaveDays: number;
+  manualDays: number; // attended days with a record entered by hand
+  attendancePercentage: number; // half days count as half; excused days are left out
+}
+
+// Distinct students per attended status
+export interface AttendanceStatusCounts {
+  present: number;
+  late: number;
+  halfDay: number;
+  earlyLeave: number;
 }
 
 export interface StudentDetailResponse {
@@ -180,29 +561,372 @@ export interface UpdateStudentRequest {
 
 export interface UpdateBiometricsRequest {
   faceImage?: string;
-  fingerprintData?: {
-    credentialId: string;
-    publicKey: string;
-    counter: number;
-  };
+  allowDuplicateFace?: boolean;
+  detector?: FaceDetectorOptions;
+  fingerprintRegistrationId?: string; // id returned by /api/fingerprint/register/verify
+  fingerprintLabel?: string; // e.g. "Right thumb"
 }
 
 export interface CalendarAttendanceData {
   date: string; // ISO date string
-  status: 'present' | 'absent' | 'none';
+  status: AttendanceStatus | 'none' | 'excused' | Exclude<CalendarDayType, 'working'>;
+  holidayName?: string;
+  leaveType?: LeaveType; // set when the day is excused by approved leave
   timeIn?: Date;
   timeOut?: Date;
-  duration?: number; // in milliseconds
+  autoCheckout?: boolean;
+  duration?: number; // in milliseconds, across every interval
+  intervals?: IAttendanceInterval[];
   location?: string;
-  biometricMethod?: 'face' | 'fingerprint';
+  biometricMethod?: AttendanceMethod;
+  manualReason?: string;
   confidence?: number;
   attendanceId?: string;
 }
 
+export interface ManualAttendanceRequest {
+  timeIn?: string; // defaults to now; its date is the attendance date
+  timeOut?: string;
+  status?: AttendanceStatus;
+  session?: string; // ClassSession id
+  location?: string;
+  reason: string;
+  notes?: string;
+}
+
+// Marks a whole course roster, or only the listed students of it
+export interface BulkManualAttendanceRequest extends Omit<ManualAttendanceRequest, 'timeOut'> {
+  course: string;
+  students?: string[];
+}
+
+export interface BulkManualAttendanceResult {
+  created: number;
+  skipped: { _id: string; studentId: string; name: string; reason: string }[];
+}
+
 export interface UpdateAttendanceRequest {
-  status?: 'present' | 'absent';
+  status?: AttendanceStatus;
   timeIn?: Date;
   timeOut?: Date;
   location?: string;
   notes?: string;
+  reason?: string; // required when an absent roll-call record is marked as attended
+}
+
+// Authentication Types
+export interface AuthTokenPayload {
+  sub: string;
+  role: UserRole;
+  tokenVersion: number;
+  type: 'access' | 'refresh';
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthTokensResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+  user: AuthenticatedUser;
+}
+
+export interface CreateUserRequest {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  password?: string;
+}
+
+// Device Types
+export interface RegisterDeviceRequest {
+  name: string;
+  location: string;
+}
+
+export interface UpdateDeviceRequest {
+  name?: string;
+  location?: string;
+  isEnabled?: boolean;
+}
+
+export interface DeviceCredentialsResponse {
+  deviceId: string;
+  name: string;
+  location: string;
+  secretKey: string; // only ever returned on registration and rotation
+}
+
+// Face Template Types
+export interface FaceTemplateListItem {
+  _id: string;
+  quality: number;
+  source: FaceTemplateSource;
+  imageUrl?: string;
+  capturedAt: Date;
+}
+
+export interface FingerprintCredentialListItem {
+  _id: string;
+  credentialId: string;
+  label: string;
+  algorithm?: number;
+  counter: number;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revoked: boolean;
+  revokedAt?: Date;
+}
+
+export interface AddFaceTemplateRequest {
+  faceImage: string;
+  allowDuplicateFace?: boolean;
+  detector?: FaceDetectorOptions;
+}
+
+// Duplicate Face Types
+export type DuplicateFaceMode = 'reject' | 'flag';
+
+export interface DuplicateFaceCheckResult {
+  action: 'allow' | 'flag' | 'reject';
+  conflict?: {
+    _id: string;
+    studentId: string;
+    name: string;
+    isActive: boolean;
+    distance: number;
+  };
+}
+
+// Face Index Types
+export interface FaceIndexMatch {
+  studentId: string; // MongoDB id
+  studentIdString: string;
+  name: string;
+  confidence: number;
+  distance: number;
+  templateId?: string;
+  isActive: boolean;
+}
+
+export interface FaceIndexStats {
+  ready: boolean;
+  students: number;
+  activeStudents: number;
+  templates: number;
+  builtAt: Date | null;
+}
+
+// Timetable Types
+export interface ClassSessionRequest {
+  course: string;
+  subject: string;
+  teacher?: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  room?: string;
+}
+
+export interface ClassSessionSummary {
+  _id: string;
+  subject: string;
+  startTime: string;
+  endTime: string;
+  room?: string;
+}
+
+export interface SubjectAttendanceReportItem {
+  subject: string;
+  sessionsScheduled: number; // class periods held in the date range
+  expectedAttendances: number; // periods x students
+  attended: number;
+  late: number; // included in attended
+  manual: number; // included in attended; entered by hand rather than scanned
+  absent: number;
+  attendancePercentage: number;
+}
+
+export interface SubjectAttendanceReport {
+  course: string;
+  student?: { _id: string; studentId: string; name: string };
+  startDate: string;
+  endDate: string;
+  studentCount: number;
+  subjects: SubjectAttendanceReportItem[];
+}
+
+// Academic Calendar Types
+export interface IAcademicTerm {
+  _id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+// Holiday (optionally spanning several days) or special working day
+export interface ICalendarDay {
+  _id: string;
+  date: Date;
+  endDate?: Date; // holidays only, inclusive
+  name: string;
+  courses: string[]; // empty applies to every course
+}
+
+export interface ICourseWeeklyOff {
+  course: string;
+  weeklyOffs: number[];
+}
+
+export interface IAcademicCalendar extends Document {
+  _id: string;
+  name: string; // e.g. "2026-27"
+  startDate: Date;
+  endDate: Date;
+  weeklyOffs: number[]; // Date#getDay values, 0 = Sunday
+  courseWeeklyOffs: ICourseWeeklyOff[];
+  terms: IAcademicTerm[]; // days between terms are vacation; no terms means the whole year is in session
+  holidays: ICalendarDay[];
+  workingDays: ICalendarDay[]; // override weekly offs and holidays
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CalendarDayType = 'working' | 'weekly-off' | 'holiday' | 'vacation';
+
+export interface CalendarDayInfo {
+  date: string; // YYYY-MM-DD, server local date
+  type: CalendarDayType;
+  name?: string; // holiday, working day or term name
+}
+
+export interface AcademicCalendarRequest {
+  name: string;
+  startDate: string;
+  endDate: string;
+  weeklyOffs?: number[];
+  courseWeeklyOffs?: ICourseWeeklyOff[];
+  terms?: { name: string; startDate: string; endDate: string }[];
+  isActive?: boolean;
+}
+
+export interface CalendarDayRequest {
+  date: string;
+  endDate?: string;
+  name: string;
+  courses?: string[];
+}
+
+// Attendance Rule Types
+// Most specific active rule wins: course and location, then course, then location, then the default
+export interface IAttendanceRule extends Document {
+  _id: string;
+  name: string;
+  course?: string; // unset applies to every course
+  location?: string; // unset applies to every location
+  startTime: string; // HH:mm, whole-day attendance
+  graceMinutes: number;
+  halfDayAfter?: string; // HH:mm, arriving later is a half day
+  minimumHours?: number; // leaving earlier is an early leave
+  autoCheckoutTime?: string; // HH:mm, open records are closed automatically after this
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AttendanceRuleRequest {
+  name: string;
+  course?: string | null;
+  location?: string | null;
+  startTime: string;
+  graceMinutes?: number;
+  halfDayAfter?: string | null;
+  minimumHours?: number | null;
+  autoCheckoutTime?: string | null;
+  isActive?: boolean;
+}
+
+export type AutoCheckoutNotify = 'none' | 'student' | 'admin' | 'both';
+
+export interface AutoCheckoutStatus {
+  enabled: boolean;
+  intervalMinutes: number;
+  defaultCutoff: string;
+  lastRunAt: Date | null;
+  lastClosed: number;
+}
+
+// Leave Types
+export type LeaveType = 'sick' | 'family' | 'official' | 'other';
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ILeave extends Document {
+  _id: string;
+  student: string; // Student id
+  studentId: string;
+  startDate: Date;
+  endDate: Date; // inclusive
+  type: LeaveType;
+  reason: string;
+  attachmentUrl?: string;
+  status: LeaveStatus;
+  submittedBy?: string; // User id
+  reviewedBy?: string; // User id
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LeaveRequest {
+  student: string;
+  startDate: string;
+  endDate: string;
+  type: LeaveType;
+  reason: string;
+  attachmentUrl?: string;
+}
+
+export interface LeaveReviewRequest {
+  note?: string;
+}
+
+// Roll Call Types
+// A closed register: absent records were written for everyone expected who did not turn up
+export interface IRollCall extends Document {
+  _id: string;
+  date: Date;
+  expected: number;
+  present: number;
+  absent: number;
+  excused: number;
+  closedBy?: string; // User id; unset when closed by the scheduled job
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RollCallRequest {
+  date: string;
+}
+
+export interface RollCallStatus {
+  enabled: boolean;
+  intervalMinutes: number;
+  catchUpDays: number;
+  lastRunAt: Date | null;
+  lastClosed: number;
 }
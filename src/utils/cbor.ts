@@ -0,0 +1,193 @@
+/**
+ * CBOR Utility
+ * Minimal CBOR (RFC 8949) decoder for WebAuthn attestation objects and COSE keys
+ * Maps are decoded to Map so integer COSE labels keep their type
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export class CborDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborDecodeError';
+  }
+}
+
+class CborReader {
+  constructor(private readonly buffer: Buffer, public offset: number = 0) {}
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new CborDecodeError('Unexpected end of CBOR data');
+    }
+  }
+
+  private readUint8(): number {
+    this.ensure(1);
+    return this.buffer[this.offset++];
+  }
+
+  private readArgument(additional: number): number | bigint {
+    if (additional < 24) {
+      return additional;
+    }
+
+    switch (additional) {
+      case 24:
+        return this.readUint8();
+      case 25: {
+        this.ensure(2);
+        const value = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.buffer.readUInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 27: {
+        this.ensure(8);
+        const value = this.buffer.readBigUInt64BE(this.offset);
+        this.offset += 8;
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        // Indefinite lengths are not used by WebAuthn authenticators
+        throw new CborDecodeError(`Unsupported CBOR additional information: ${additional}`);
+    }
+  }
+
+  private readLength(additional: number): number {
+    const length = this.readArgument(additional);
+    if (typeof length !== 'number') {
+      throw new CborDecodeError('CBOR length too large');
+    }
+    return length;
+  }
+
+  private readBytes(length: number): Buffer {
+    this.ensure(length);
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return Buffer.from(bytes);
+  }
+
+  private readHalfFloat(): number {
+    this.ensure(2);
+    const half = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+
+    if (exponent === 0) {
+      return sign * Math.pow(2, -14) * (fraction / 1024);
+    }
+    if (exponent === 0x1f) {
+      return fraction ? NaN : sign * Infinity;
+    }
+    return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+  }
+
+  read(): CborValue {
+    const initial = this.readUint8();
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (majorType) {
+      case 0:
+        return this.readArgument(additional);
+      case 1: {
+        const value = this.readArgument(additional);
+        return typeof value === 'bigint' ? BigInt(-1) - value : -1 - value;
+      }
+      case 2:
+        return this.readBytes(this.readLength(additional));
+      case 3:
+        return this.readBytes(this.readLength(additional)).toString('utf8');
+      case 4: {
+        const length = this.readLength(additional);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.read());
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.readLength(additional);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = this.read();
+          map.set(key, this.read());
+        }
+        return map;
+      }
+      case 6:
+        // Tags carry no meaning for WebAuthn, return the tagged value
+        this.readArgument(additional);
+        return this.read();
+      case 7:
+        switch (additional) {
+          case 20:
+            return false;
+          case 21:
+            return true;
+          case 22:
+            return null;
+          case 23:
+            return undefined;
+          case 25:
+            return this.readHalfFloat();
+          case 26: {
+            this.ensure(4);
+            const value = this.buffer.readFloatBE(this.offset);
+            this.offset += 4;
+            return value;
+          }
+          case 27: {
+            this.ensure(8);
+            const value = this.buffer.readDoubleBE(this.offset);
+            this.offset += 8;
+            return value;
+          }
+          default:
+            throw new CborDecodeError(`Unsupported CBOR simple value: ${additional}`);
+        }
+      default:
+        throw new CborDecodeError(`Unsupported CBOR major type: ${majorType}`);
+    }
+  }
+}
+
+/**
+ * Decode the first CBOR item starting at offset and report how many bytes it used
+ * Needed for authenticator data, where the COSE key is followed by extensions
+ */
+export function decodeCborItem(buffer: Buffer, offset: number = 0): { value: CborValue; length: number } {
+  const reader = new CborReader(buffer, offset);
+  const value = reader.read();
+  return { value, length: reader.offset - offset };
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, length } = decodeCborItem(buffer);
+  if (length !== buffer.length) {
+    throw new CborDecodeError('Unexpected trailing bytes after CBOR item');
+  }
+  return value;
+}
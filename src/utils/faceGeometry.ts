@@ -0,0 +1,84 @@
+/**
+ * Face Geometry Utility
+ * Measurements on the 68-point landmarks returned by detectFaces
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 68-point landmark indices
+export const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+export const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+export const JAW_LEFT = 0;
+export const JAW_RIGHT = 16;
+export const NOSE_TIP = 30;
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  };
+}
+
+/**
+ * Centers of the left and right eye (image left/right)
+ */
+export function eyeCenters(positions: Point[]): { left: Point; right: Point } {
+  return {
+    left: centroid(LEFT_EYE.map(i => positions[i])),
+    right: centroid(RIGHT_EYE.map(i => positions[i]))
+  };
+}
+
+/**
+ * Distance between the eye centers, used to normalise other measurements
+ */
+export function interOcularDistance(positions: Point[]): number {
+  const { left, right } = eyeCenters(positions);
+  return distance(left, right);
+}
+
+/**
+ * Eye aspect ratio (Soukupová & Čech): drops towards 0 when the eye closes
+ */
+export function eyeAspectRatio(eye: Point[]): number {
+  const vertical = distance(eye[1], eye[5]) + distance(eye[2], eye[4]);
+  const horizontal = distance(eye[0], eye[3]);
+  return horizontal > 0 ? vertical / (2 * horizontal) : 0;
+}
+
+/**
+ * Mean eye aspect ratio of both eyes
+ */
+export function meanEyeAspectRatio(positions: Point[]): number {
+  return (
+    eyeAspectRatio(LEFT_EYE.map(i => positions[i])) +
+    eyeAspectRatio(RIGHT_EYE.map(i => positions[i]))
+  ) / 2;
+}
+
+/**
+ * Horizontal position of the nose tip between the jaw edges
+ * ~0.5 when facing the camera, moves towards 0 or 1 as the head turns
+ */
+export function yawRatio(positions: Point[]): number {
+  const left = positions[JAW_LEFT].x;
+  const right = positions[JAW_RIGHT].x;
+  const width = right - left;
+  return width !== 0 ? (positions[NOSE_TIP].x - left) / width : 0.5;
+}
+
+/**
+ * In-plane head tilt in degrees, from the line between the eye centers
+ * Positive when the right eye is lower than the left
+ */
+export function rollAngle(positions: Point[]): number {
+  const { left, right } = eyeCenters(positions);
+  return Math.atan2(right.y - left.y, right.x - left.x) * (180 / Math.PI);
+}
@@ -44,6 +44,32 @@ Thank you,
 Madani Computer Academy`;
 }
 
+/**
+ * Generate message for a student who did not log out
+ * @param studentName - Name of the student
+ * @param timeIn - When the student logged in
+ * @param timeOut - When the record was closed automatically
+ * @returns Formatted message
+ */
+export function generateAutoCheckoutMessage(studentName: string, timeIn: Date, timeOut: Date): string {
+  const dateStr = timeIn.toLocaleDateString('en-IN', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+  const timeFormat: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+  
+  return `Dear ${studentName},
+
+You logged in at ${timeIn.toLocaleTimeString('en-IN', timeFormat)} on ${dateStr} but did not log out.
+
+Your attendance was closed automatically at ${timeOut.toLocaleTimeString('en-IN', timeFormat)}. Please remember to log out when leaving.
+
+Thank you,
+Madani Computer Academy`;
+}
+
 /**
  * Generate bulk WhatsApp links for multiple students
  * @param students - Array of students with phone and name
@@ -0,0 +1,32 @@
+import { parentPort } from 'worker_threads';
+import { detectFacesInProcess, loadFaceModels } from '../middleware/faceRecognition';
+import { FaceWorkerMessage, FaceWorkerRequest } from '../types';
+
+/**
+ * Face Worker
+ * Worker thread started by faceWorkerPool. Loads its own copy of the face-api.js
+ * models and runs detection requests one at a time.
+ */
+
+if (!parentPort) {
+  throw new Error('faceWorker must be started as a worker thread');
+}
+
+const port = parentPort;
+
+const send = (message: FaceWorkerMessage): void => {
+  port.postMessage(message);
+};
+
+port.on('message', async (request: FaceWorkerRequest) => {
+  try {
+    const detections = await detectFacesInProcess(Buffer.from(request.image), request.detector);
+    send({ type: 'result', id: request.id, detections });
+  } catch (error: any) {
+    send({ type: 'error', id: request.id, error: error.message || 'Unknown error' });
+  }
+});
+
+loadFaceModels()
+  .then(() => send({ type: 'ready' }))
+  .catch((error: any) => send({ type: 'init-error', error: error.message || 'Unknown error' }));